@@ -0,0 +1,289 @@
+import express, { NextFunction, Request, Response } from "express";
+import { Server } from "http";
+import { Database } from "duckdb";
+import { Label, LabelsRepository } from "../database/labels.repository.js";
+import { PostsRepository } from "../database/posts.repository.js";
+import { ProfilesRepository } from "../database/profiles.repository.js";
+import { BlobsRepository } from "../database/blobs.repository.js";
+import { ProfileBlobsRepository } from "../database/profile-blobs.repository.js";
+import { ProfileSnapshotsRepository } from "../database/profile-snapshots.repository.js";
+import { BlobFramesRepository } from "../database/blob-frames.repository.js";
+import { HydrationOutcomesRepository } from "../database/hydration-outcomes.repository.js";
+import { IdentitiesRepository } from "../database/identities.repository.js";
+import { HandleHistoryRepository } from "../database/handle-history.repository.js";
+import { logger } from "../logger/index.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const POST_JSON_COLUMNS = ["facets", "embeds", "langs", "tags"];
+
+class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+function route(handler: Handler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+function stringParam(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || value === "") {
+    throw new BadRequestError(`Invalid ${name} parameter`);
+  }
+  return value;
+}
+
+function timestampParam(req: Request, name: string): string | undefined {
+  const value = stringParam(req, name);
+  if (value !== undefined && isNaN(Date.parse(value))) {
+    throw new BadRequestError(`${name} must be an ISO 8601 timestamp`);
+  }
+  return value;
+}
+
+function intParam(req: Request, name: string): number | undefined {
+  const value = stringParam(req, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new BadRequestError(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+// The page size of a list, also the cap on lists returned without a cursor
+function limitParam(req: Request): number {
+  return Math.min(intParam(req, "limit") ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+}
+
+// The cursor for the page after a page of labels, null on the last page
+function nextLabelCursor(labels: Label[], limit: number): string | null {
+  const last = labels[labels.length - 1];
+  return labels.length === limit && last?.id !== undefined ? String(last.id) : null;
+}
+
+function parseJsonColumns<T extends Record<string, any>>(
+  row: T,
+  columns: string[]
+): T {
+  const parsed: Record<string, any> = { ...row };
+  for (const column of columns) {
+    if (typeof parsed[column] === "string") {
+      parsed[column] = JSON.parse(parsed[column]);
+    }
+  }
+  return parsed as T;
+}
+
+export function createApiApp(db: Database): express.Express {
+  const labelsRepo = new LabelsRepository(db);
+  const postsRepo = new PostsRepository(db);
+  const profilesRepo = new ProfilesRepository(db);
+  const blobsRepo = new BlobsRepository(db);
+  const profileBlobsRepo = new ProfileBlobsRepository(db);
+  const snapshotsRepo = new ProfileSnapshotsRepository(db);
+  const framesRepo = new BlobFramesRepository(db);
+  const outcomesRepo = new HydrationOutcomesRepository(db);
+  const identitiesRepo = new IdentitiesRepository(db);
+  const handleHistoryRepo = new HandleHistoryRepository(db);
+
+  const app = express();
+  app.disable("x-powered-by");
+  // UBIGINT columns such as phash_bits do not fit a JSON number
+  app.set("json replacer", (_key: string, value: unknown) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+
+  app.get(
+    "/labels",
+    route(async (req, res) => {
+      const limit = limitParam(req);
+
+      const labels = await labelsRepo.list({
+        val: stringParam(req, "val"),
+        src: stringParam(req, "src"),
+        subscription: stringParam(req, "subscription"),
+        since: timestampParam(req, "since"),
+        until: timestampParam(req, "until"),
+        cursor: intParam(req, "cursor"),
+        limit,
+      });
+
+      res.json({ labels, cursor: nextLabelCursor(labels, limit) });
+    })
+  );
+
+  app.get(
+    "/posts",
+    route(async (req, res) => {
+      const uri = stringParam(req, "uri");
+      if (!uri) {
+        throw new BadRequestError("uri parameter is required");
+      }
+
+      const post = await postsRepo.findByUri(uri);
+      if (!post) {
+        res.status(404).json({ error: "NotFound", message: "Post not found" });
+        return;
+      }
+
+      const [labels, blobs, outcomes] = await Promise.all([
+        labelsRepo.findByUri(uri),
+        blobsRepo.findByPostUri(uri),
+        outcomesRepo.findBySubject(uri),
+      ]);
+
+      res.json({
+        post: parseJsonColumns(post, POST_JSON_COLUMNS),
+        labels,
+        blobs,
+        outcomes,
+      });
+    })
+  );
+
+  app.get(
+    "/profiles/:did",
+    route(async (req, res) => {
+      const did = req.params.did;
+      const asOf = timestampParam(req, "asOf");
+      const limit = limitParam(req);
+      const cursor = intParam(req, "cursor");
+
+      const profile = asOf
+        ? await snapshotsRepo.findAsOf(did, asOf)
+        : await profilesRepo.findByDid(did);
+      if (!profile) {
+        res.status(404).json({ error: "NotFound", message: "Profile not found" });
+        return;
+      }
+
+      const [labels, blobs] = await Promise.all([
+        labelsRepo.list({
+          uris: [did, `at://${did}`, `at://${did}/app.bsky.actor.profile/self`],
+          cursor,
+          limit,
+        }),
+        profileBlobsRepo.findByDid(did),
+      ]);
+
+      res.json({
+        profile,
+        labels,
+        cursor: nextLabelCursor(labels, limit),
+        blobs,
+      });
+    })
+  );
+
+  app.get(
+    "/identities/:did",
+    route(async (req, res) => {
+      const did = req.params.did;
+
+      const [identity, handles] = await Promise.all([
+        identitiesRepo.findByDid(did),
+        handleHistoryRepo.findByDid(did),
+      ]);
+      if (!identity && handles.length === 0) {
+        res.status(404).json({ error: "NotFound", message: "Identity not found" });
+        return;
+      }
+
+      res.json({ identity, handles });
+    })
+  );
+
+  app.get(
+    "/handles/:handle",
+    route(async (req, res) => {
+      const accounts = await handleHistoryRepo.findByHandle(
+        req.params.handle,
+        limitParam(req)
+      );
+      res.json({ accounts });
+    })
+  );
+
+  app.get(
+    "/blobs",
+    route(async (req, res) => {
+      const sha256 = stringParam(req, "sha256");
+      const phash = stringParam(req, "phash");
+
+      if (!sha256 === !phash) {
+        throw new BadRequestError("Exactly one of sha256 or phash is required");
+      }
+
+      const maxDistance = intParam(req, "maxDistance");
+      const limit = limitParam(req);
+      if (maxDistance !== undefined && (!phash || maxDistance > 64)) {
+        throw new BadRequestError("maxDistance must be 0-64 and used with phash");
+      }
+
+      const [blobs, profileBlobs] = sha256
+        ? await Promise.all([
+            blobsRepo.findAllBySha256(sha256, limit),
+            profileBlobsRepo.findAllBySha256(sha256, limit),
+          ])
+        : maxDistance !== undefined
+          ? await Promise.all([
+              blobsRepo.findSimilarByPhash(phash!, maxDistance, limit),
+              profileBlobsRepo.findSimilarByPhash(phash!, maxDistance, limit),
+            ])
+          : await Promise.all([
+              blobsRepo.findByPhash(phash!, limit),
+              profileBlobsRepo.findByPhash(phash!, limit),
+            ]);
+
+      const frames = phash
+        ? await framesRepo.findSimilarByPhash(phash, maxDistance ?? 0, limit)
+        : [];
+
+      res.json({ blobs, profileBlobs, frames });
+    })
+  );
+
+  app.use((_req: Request, res: Response) => {
+    res.status(404).json({ error: "NotFound", message: "Unknown endpoint" });
+  });
+
+  app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof BadRequestError) {
+      res.status(400).json({ error: "InvalidRequest", message: err.message });
+      return;
+    }
+    logger.error({ err, path: req.path }, "API request failed");
+    res.status(500).json({ error: "InternalServerError" });
+  });
+
+  return app;
+}
+
+export async function startApiServer(
+  db: Database,
+  port: number,
+  host = "127.0.0.1"
+): Promise<Server> {
+  const app = createApiApp(db);
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, host, () => {
+      logger.info({ host, port }, "Query API listening");
+      resolve(server);
+    });
+    server.on("error", (err) => {
+      logger.error({ err, host, port }, "Failed to start query API");
+      reject(err);
+    });
+  });
+}
@@ -0,0 +1,121 @@
+import { parseArgs } from "util";
+import { config } from "./config/index.js";
+import { logger } from "./logger/index.js";
+import {
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "./database/connection.js";
+import { initializeSchema } from "./database/schema.js";
+import { LabelsRepository } from "./database/labels.repository.js";
+import { HydrationTasksRepository } from "./database/hydration-tasks.repository.js";
+import { subscriptionId } from "./firehose/subscriber.js";
+import { QueryLabelsSource } from "./firehose/query-labels.js";
+import { taskForLabelUri } from "./hydration/routing.js";
+
+interface BackfillLabelsOptions {
+  subscription?: string;
+  uriPatterns: string[];
+  sources: string[];
+  limit: number;
+  cursor?: string;
+}
+
+function parseOptions(): BackfillLabelsOptions {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      subscription: { type: "string" },
+      "uri-pattern": { type: "string", multiple: true },
+      source: { type: "string", multiple: true },
+      limit: { type: "string" },
+      cursor: { type: "string" },
+    },
+  });
+
+  const limit = values.limit ? parseInt(values.limit, 10) : 250;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 250) {
+    throw new Error(`Invalid --limit (1-250): ${values.limit}`);
+  }
+
+  return {
+    subscription: values.subscription,
+    uriPatterns: values["uri-pattern"] ?? ["*"],
+    sources: values.source ?? [],
+    limit,
+    cursor: values.cursor,
+  };
+}
+
+async function main() {
+  try {
+    const options = parseOptions();
+
+    const urls = config.labeler.wssUrls.filter(
+      (url) =>
+        !options.subscription || subscriptionId(url) === options.subscription
+    );
+    if (urls.length === 0) {
+      throw new Error(
+        `Subscription is not configured in WSS_URL: ${options.subscription}`
+      );
+    }
+    if (options.cursor && urls.length > 1) {
+      throw new Error("--cursor requires --subscription");
+    }
+
+    logger.info(options, "Starting label backfill...");
+
+    await initializeDatabase();
+    await initializeSchema();
+
+    const db = getDatabase();
+    const labelsRepo = new LabelsRepository(db);
+    const tasksRepo = new HydrationTasksRepository(db);
+
+    let failed = 0;
+    let pendingWrites: Promise<void> = Promise.resolve();
+
+    for (const url of urls) {
+      const source = new QueryLabelsSource(url, labelsRepo);
+      const queued = new Set<string>();
+
+      // Backfilled labels are hydrated by the service on its next start
+      source.on("label", (label, sigStatus) => {
+        if (sigStatus !== null && sigStatus !== "valid") return;
+        const task = taskForLabelUri(label.uri);
+        if (task && !queued.has(label.uri)) {
+          queued.add(label.uri);
+          pendingWrites = pendingWrites
+            .then(() => tasksRepo.enqueue(task))
+            .catch(() => {});
+        }
+      });
+
+      try {
+        const result = await source.run(options);
+        logger.info(
+          { subscription: source.subscription, ...result, queued: queued.size },
+          "Label backfill complete"
+        );
+      } catch (error) {
+        // The cursor of the last complete page is logged with each page, so
+        // a failed run can be resumed with --cursor
+        logger.error(
+          { error, subscription: source.subscription },
+          "Label backfill failed"
+        );
+        failed++;
+      }
+    }
+
+    await pendingWrites;
+    await closeDatabase();
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error({ error }, "Label backfill failed");
+    process.exit(1);
+  }
+}
+
+main();
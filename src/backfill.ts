@@ -0,0 +1,164 @@
+import { parseArgs } from "util";
+import { config } from "./config/index.js";
+import { logger } from "./logger/index.js";
+import {
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "./database/connection.js";
+import { initializeSchema } from "./database/schema.js";
+import {
+  LabelsRepository,
+  UnhydratedSubject,
+} from "./database/labels.repository.js";
+import { PostHydrationService } from "./hydration/posts.service.js";
+import { ProfileHydrationService } from "./hydration/profiles.service.js";
+import { RecordHydrationService } from "./hydration/records.service.js";
+import { createHydrationRateLimit } from "./hydration/rate-limit.js";
+import { HydrationPolicyResolver, fetchesRecord } from "./hydration/policy.js";
+
+const PROGRESS_INTERVAL = 10000;
+
+interface BackfillOptions {
+  since?: string;
+  dryRun: boolean;
+  concurrency: number;
+}
+
+function parseOptions(): BackfillOptions {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      since: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      concurrency: { type: "string" },
+    },
+  });
+
+  if (values.since && isNaN(Date.parse(values.since))) {
+    throw new Error(`Invalid --since timestamp: ${values.since}`);
+  }
+
+  const concurrency = values.concurrency
+    ? parseInt(values.concurrency, 10)
+    : config.hydration.concurrency;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency: ${values.concurrency}`);
+  }
+
+  return {
+    since: values.since,
+    dryRun: values["dry-run"] ?? false,
+    concurrency,
+  };
+}
+
+async function main() {
+  let stopping = false;
+
+  process.on("SIGINT", () => {
+    logger.info("Stopping backfill after in-flight tasks finish...");
+    stopping = true;
+  });
+
+  try {
+    const options = parseOptions();
+
+    logger.info(options, "Starting backfill...");
+
+    await initializeDatabase();
+    await initializeSchema();
+
+    const db = getDatabase();
+    const labelsRepo = new LabelsRepository(db);
+
+    const subjects = await labelsRepo.findUnhydratedSubjects(options.since);
+    const counts = subjects.reduce<Record<string, number>>((acc, s) => {
+      acc[s.type] = (acc[s.type] ?? 0) + 1;
+      return acc;
+    }, {});
+
+    logger.info(
+      { ...counts, since: options.since },
+      "Found labeled subjects missing hydration"
+    );
+
+    if (options.dryRun) {
+      for (const subject of subjects) {
+        logger.info(
+          {
+            type: subject.type,
+            identifier: subject.identifier,
+            firstSeen: subject.first_seen,
+          },
+          "Would hydrate"
+        );
+      }
+      await closeDatabase();
+      return;
+    }
+
+    const hydrationLimit = createHydrationRateLimit(options.concurrency);
+    const postHydration = new PostHydrationService(db, hydrationLimit);
+    const profileHydration = new ProfileHydrationService(db, hydrationLimit);
+    const recordHydration = new RecordHydrationService(db, hydrationLimit);
+
+    const policies = new HydrationPolicyResolver(labelsRepo);
+
+    // Subjects whose labels all have the none policy are skipped, not
+    // completed, so the summary only counts what was hydrated
+    const progress = { completed: 0, skipped: 0, failed: 0, total: subjects.length };
+    const reportProgress = () =>
+      logger.info(
+        {
+          ...progress,
+          remaining:
+            progress.total - progress.completed - progress.skipped - progress.failed,
+        },
+        "Backfill progress"
+      );
+    const reporter = setInterval(reportProgress, PROGRESS_INTERVAL);
+
+    let next = 0;
+    const worker = async () => {
+      while (!stopping && next < subjects.length) {
+        const subject: UnhydratedSubject = subjects[next++];
+        try {
+          const policy = await policies.resolve(subject);
+          if (!fetchesRecord(policy)) {
+            progress.skipped++;
+            continue;
+          }
+          if (subject.type === "post") {
+            await postHydration.hydratePost(subject.identifier, policy);
+          } else if (subject.type === "profile") {
+            await profileHydration.hydrateProfile(subject.identifier, policy);
+          } else {
+            await recordHydration.hydrateRecord(subject.identifier, policy);
+          }
+          progress.completed++;
+        } catch (error) {
+          logger.error({ error, subject }, "Backfill task failed");
+          progress.failed++;
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: options.concurrency }, () => worker())
+    );
+
+    clearInterval(reporter);
+    reportProgress();
+    logger.info(stopping ? "Backfill interrupted" : "Backfill complete");
+
+    await closeDatabase();
+    process.exit(progress.failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error({ error }, "Backfill failed");
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,7 +1,12 @@
 import crypto from "crypto";
 import sharp from "sharp";
+import { computePdqFromPixels, PdqHash } from "./pdq.js";
 import { logger } from "../logger/index.js";
 
+const DCT_SIZE = 32;
+const DCT_HASH_SIZE = 8;
+const PDQ_MAX_DIMENSION = 512;
+
 export async function computeSha256(buffer: Buffer): Promise<string> {
   return crypto.createHash("sha256").update(buffer).digest("hex");
 }
@@ -37,9 +42,108 @@ export async function computePerceptualHash(buffer: Buffer): Promise<string> {
   }
 }
 
+const dctCosines: Float64Array = (() => {
+  const table = new Float64Array(DCT_HASH_SIZE * DCT_SIZE);
+  for (let k = 0; k < DCT_HASH_SIZE; k++) {
+    for (let n = 0; n < DCT_SIZE; n++) {
+      table[k * DCT_SIZE + n] = Math.cos((Math.PI * k * (2 * n + 1)) / (2 * DCT_SIZE));
+    }
+  }
+  return table;
+})();
+
+/**
+ * DCT-based perceptual hash, as produced by pHash/imagehash: 32x32
+ * greyscale, 2D DCT, low-frequency 8x8 block thresholded at its median.
+ */
+export async function computeDctPerceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .grayscale()
+    .resize(DCT_SIZE, DCT_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  const rows = new Float64Array(DCT_HASH_SIZE * DCT_SIZE);
+  for (let k = 0; k < DCT_HASH_SIZE; k++) {
+    for (let x = 0; x < DCT_SIZE; x++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        sum += dctCosines[k * DCT_SIZE + y] * pixels[y * DCT_SIZE + x];
+      }
+      rows[k * DCT_SIZE + x] = sum;
+    }
+  }
+
+  const coefficients = new Float64Array(DCT_HASH_SIZE * DCT_HASH_SIZE);
+  for (let k = 0; k < DCT_HASH_SIZE; k++) {
+    for (let l = 0; l < DCT_HASH_SIZE; l++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) {
+        sum += dctCosines[l * DCT_SIZE + x] * rows[k * DCT_SIZE + x];
+      }
+      coefficients[k * DCT_HASH_SIZE + l] = sum;
+    }
+  }
+
+  const sorted = Float64Array.from(coefficients).sort();
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  let hash = 0n;
+  for (const value of coefficients) {
+    hash = (hash << 1n) | (value > median ? 1n : 0n);
+  }
+
+  return hash.toString(16).padStart(16, "0");
+}
+
+export async function computePdqHash(buffer: Buffer): Promise<PdqHash> {
+  const { data, info } = await sharp(buffer)
+    .resize(PDQ_MAX_DIMENSION, PDQ_MAX_DIMENSION, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return computePdqFromPixels(data, info.width, info.height, info.channels);
+}
+
 export interface BlobHashes {
   sha256: string;
   phash?: string;
+  dctPhash?: string;
+  pdq?: string;
+  pdqQuality?: number;
+}
+
+export type PerceptualHashes = Omit<BlobHashes, "sha256">;
+
+/**
+ * Computes every perceptual hash for an image. Each hash is attempted
+ * independently so one failing does not drop the others.
+ */
+export async function computePerceptualHashes(
+  buffer: Buffer
+): Promise<PerceptualHashes> {
+  const [phash, dctPhash, pdq] = await Promise.allSettled([
+    computePerceptualHash(buffer),
+    computeDctPerceptualHash(buffer),
+    computePdqHash(buffer),
+  ]);
+
+  for (const result of [phash, dctPhash, pdq]) {
+    if (result.status === "rejected") {
+      logger.warn({ error: result.reason }, "Failed to compute a perceptual hash");
+    }
+  }
+
+  return {
+    phash: phash.status === "fulfilled" ? phash.value : undefined,
+    dctPhash: dctPhash.status === "fulfilled" ? dctPhash.value : undefined,
+    pdq: pdq.status === "fulfilled" ? pdq.value.hash : undefined,
+    pdqQuality: pdq.status === "fulfilled" ? pdq.value.quality : undefined,
+  };
 }
 
 export async function computeBlobHashes(
@@ -52,16 +156,7 @@ export async function computeBlobHashes(
     mimetype?.startsWith("image/") &&
     !mimetype.includes("svg")
   ) {
-    try {
-      const phash = await computePerceptualHash(buffer);
-      return { sha256, phash };
-    } catch (error) {
-      logger.warn(
-        { error, mimetype },
-        "Failed to compute pHash, returning SHA256 only"
-      );
-      return { sha256 };
-    }
+    return { sha256, ...(await computePerceptualHashes(buffer)) };
   }
 
   return { sha256 };
@@ -0,0 +1,197 @@
+// Port of Meta's PDQ image hash (ThreatExchange reference implementation):
+// luminance -> Jarosz tent filter -> 64x64 decimation -> 16x16 DCT ->
+// threshold at the median. Output is the reference 64-char hex encoding.
+
+const LUMA_R = 0.299;
+const LUMA_G = 0.587;
+const LUMA_B = 0.114;
+
+const DOWNSAMPLE_DIM = 64;
+const DCT_DIM = 16;
+const JAROSZ_PASSES = 2;
+
+export interface PdqHash {
+  hash: string;
+  quality: number;
+}
+
+const dctMatrix: Float64Array = (() => {
+  const matrix = new Float64Array(DCT_DIM * DOWNSAMPLE_DIM);
+  const scale = Math.sqrt(2 / DOWNSAMPLE_DIM);
+  for (let i = 0; i < DCT_DIM; i++) {
+    for (let j = 0; j < DOWNSAMPLE_DIM; j++) {
+      matrix[i * DOWNSAMPLE_DIM + j] =
+        scale * Math.cos((Math.PI / 2 / DOWNSAMPLE_DIM) * (i + 1) * (2 * j + 1));
+    }
+  }
+  return matrix;
+})();
+
+function jaroszWindowSize(oldDim: number, newDim: number): number {
+  return Math.floor((oldDim + 2 * newDim - 1) / (2 * newDim));
+}
+
+function box1D(
+  input: Float64Array,
+  output: Float64Array,
+  offset: number,
+  length: number,
+  stride: number,
+  windowSize: number
+): void {
+  const halfWindow = Math.floor((windowSize + 2) / 2);
+  const phase1 = halfWindow - 1;
+  const phase2 = windowSize - halfWindow + 1;
+  const phase3 = length - windowSize;
+  const phase4 = halfWindow - 1;
+
+  let li = offset;
+  let ri = offset;
+  let oi = offset;
+  let sum = 0;
+  let currentWindow = 0;
+
+  for (let i = 0; i < phase1; i++) {
+    sum += input[ri];
+    currentWindow++;
+    ri += stride;
+  }
+  for (let i = 0; i < phase2; i++) {
+    sum += input[ri];
+    currentWindow++;
+    output[oi] = sum / currentWindow;
+    ri += stride;
+    oi += stride;
+  }
+  for (let i = 0; i < phase3; i++) {
+    sum += input[ri];
+    sum -= input[li];
+    output[oi] = sum / currentWindow;
+    li += stride;
+    ri += stride;
+    oi += stride;
+  }
+  for (let i = 0; i < phase4; i++) {
+    sum -= input[li];
+    currentWindow--;
+    output[oi] = sum / currentWindow;
+    li += stride;
+    oi += stride;
+  }
+}
+
+function jaroszFilter(
+  buffer: Float64Array,
+  rows: number,
+  cols: number
+): void {
+  const rowWindow = jaroszWindowSize(cols, DOWNSAMPLE_DIM);
+  const colWindow = jaroszWindowSize(rows, DOWNSAMPLE_DIM);
+  const scratch = new Float64Array(buffer.length);
+
+  for (let pass = 0; pass < JAROSZ_PASSES; pass++) {
+    for (let i = 0; i < rows; i++) {
+      box1D(buffer, scratch, i * cols, cols, 1, rowWindow);
+    }
+    for (let j = 0; j < cols; j++) {
+      box1D(scratch, buffer, j, rows, cols, colWindow);
+    }
+  }
+}
+
+function decimate(buffer: Float64Array, rows: number, cols: number): Float64Array {
+  const out = new Float64Array(DOWNSAMPLE_DIM * DOWNSAMPLE_DIM);
+  for (let i = 0; i < DOWNSAMPLE_DIM; i++) {
+    const ini = Math.floor(((i + 0.5) * rows) / DOWNSAMPLE_DIM);
+    for (let j = 0; j < DOWNSAMPLE_DIM; j++) {
+      const inj = Math.floor(((j + 0.5) * cols) / DOWNSAMPLE_DIM);
+      out[i * DOWNSAMPLE_DIM + j] = buffer[ini * cols + inj];
+    }
+  }
+  return out;
+}
+
+function qualityMetric(buffer: Float64Array): number {
+  let gradientSum = 0;
+  for (let i = 0; i < DOWNSAMPLE_DIM - 1; i++) {
+    for (let j = 0; j < DOWNSAMPLE_DIM; j++) {
+      const u = buffer[i * DOWNSAMPLE_DIM + j];
+      const v = buffer[(i + 1) * DOWNSAMPLE_DIM + j];
+      gradientSum += Math.abs(Math.trunc(((u - v) * 100) / 255));
+    }
+  }
+  for (let i = 0; i < DOWNSAMPLE_DIM; i++) {
+    for (let j = 0; j < DOWNSAMPLE_DIM - 1; j++) {
+      const u = buffer[i * DOWNSAMPLE_DIM + j];
+      const v = buffer[i * DOWNSAMPLE_DIM + j + 1];
+      gradientSum += Math.abs(Math.trunc(((u - v) * 100) / 255));
+    }
+  }
+  return Math.min(Math.trunc(gradientSum / 90), 100);
+}
+
+function dct64To16(buffer: Float64Array): Float64Array {
+  const temp = new Float64Array(DCT_DIM * DOWNSAMPLE_DIM);
+  for (let i = 0; i < DCT_DIM; i++) {
+    for (let j = 0; j < DOWNSAMPLE_DIM; j++) {
+      let sum = 0;
+      for (let k = 0; k < DOWNSAMPLE_DIM; k++) {
+        sum += dctMatrix[i * DOWNSAMPLE_DIM + k] * buffer[k * DOWNSAMPLE_DIM + j];
+      }
+      temp[i * DOWNSAMPLE_DIM + j] = sum;
+    }
+  }
+
+  const out = new Float64Array(DCT_DIM * DCT_DIM);
+  for (let i = 0; i < DCT_DIM; i++) {
+    for (let j = 0; j < DCT_DIM; j++) {
+      let sum = 0;
+      for (let k = 0; k < DOWNSAMPLE_DIM; k++) {
+        sum += temp[i * DOWNSAMPLE_DIM + k] * dctMatrix[j * DOWNSAMPLE_DIM + k];
+      }
+      out[i * DCT_DIM + j] = sum;
+    }
+  }
+  return out;
+}
+
+/**
+ * Computes the PDQ hash of an RGB (3 channels) or greyscale (1 channel)
+ * raw pixel buffer.
+ */
+export function computePdqFromPixels(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  channels: number
+): PdqHash {
+  const luma = new Float64Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * channels;
+    luma[i] =
+      channels >= 3
+        ? LUMA_R * pixels[p] + LUMA_G * pixels[p + 1] + LUMA_B * pixels[p + 2]
+        : pixels[p];
+  }
+
+  jaroszFilter(luma, height, width);
+  const downsampled = decimate(luma, height, width);
+  const quality = qualityMetric(downsampled);
+  const dct = dct64To16(downsampled);
+
+  const median = Float64Array.from(dct).sort()[(dct.length - 1) >> 1];
+
+  // Reference encoding: 16 little-endian 16-bit words, printed last word first
+  let hash = "";
+  for (let word = DCT_DIM - 1; word >= 0; word--) {
+    let bits = 0;
+    for (let bit = 0; bit < DCT_DIM; bit++) {
+      if (dct[word * DCT_DIM + bit] > median) {
+        bits |= 1 << bit;
+      }
+    }
+    hash += bits.toString(16).padStart(4, "0");
+  }
+
+  return { hash, quality };
+}
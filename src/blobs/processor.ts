@@ -1,11 +1,18 @@
-import { AtpAgent } from "@atproto/api";
 import { Database } from "duckdb";
 import { BlobsRepository } from "../database/blobs.repository.js";
+import { BlobFramesRepository } from "../database/blob-frames.repository.js";
 import { computeBlobHashes } from "./hasher.js";
-import { LocalBlobStorage } from "./storage/local.js";
-import { S3BlobStorage } from "./storage/s3.js";
+import { computeVideoFrameHashes, isVideoMimeType } from "./video.js";
+import { createBlobStorage } from "./storage/index.js";
 import { config } from "../config/index.js";
 import { logger } from "../logger/index.js";
+import { pdsEndpointForDid } from "../identity/pds.js";
+import {
+  HydrationPolicy,
+  defaultHydrationPolicy,
+  storesBlobs,
+  usesBlobStorage,
+} from "../hydration/policy.js";
 
 export interface BlobReference {
   cid: string;
@@ -19,24 +26,15 @@ export interface BlobStorage {
 
 export class BlobProcessor {
   private blobsRepo: BlobsRepository;
+  private framesRepo: BlobFramesRepository;
   private storage: BlobStorage | null = null;
-  private agent: AtpAgent;
 
-  constructor(db: Database, agent: AtpAgent) {
+  constructor(db: Database) {
     this.blobsRepo = new BlobsRepository(db);
-    this.agent = agent;
+    this.framesRepo = new BlobFramesRepository(db);
 
-    if (config.blobs.hydrateBlobs) {
-      if (config.blobs.storage.type === "s3") {
-        this.storage = new S3BlobStorage(
-          config.blobs.storage.s3Bucket!,
-          config.blobs.storage.s3Region!
-        );
-      } else {
-        this.storage = new LocalBlobStorage(
-          config.blobs.storage.localPath
-        );
-      }
+    if (usesBlobStorage()) {
+      this.storage = createBlobStorage();
     }
   }
 
@@ -81,7 +79,15 @@ export class BlobProcessor {
     return refs;
   }
 
-  async processBlobs(postUri: string, embedsJson: any): Promise<void> {
+  /**
+   * Hashes the blobs referenced by a post's embeds. Bytes are written to
+   * storage only under the full-blob policy.
+   */
+  async processBlobs(
+    postUri: string,
+    embedsJson: any,
+    policy: HydrationPolicy = defaultHydrationPolicy()
+  ): Promise<void> {
     const blobRefs = this.extractBlobReferences(embedsJson);
 
     if (blobRefs.length === 0) {
@@ -90,7 +96,7 @@ export class BlobProcessor {
 
     for (const ref of blobRefs) {
       try {
-        await this.processBlob(postUri, ref);
+        await this.processBlob(postUri, ref, policy);
       } catch (error) {
         logger.error(
           { error, postUri, cid: ref.cid },
@@ -114,16 +120,33 @@ export class BlobProcessor {
 
   private async processBlob(
     postUri: string,
-    ref: BlobReference
+    ref: BlobReference,
+    policy: HydrationPolicy
   ): Promise<void> {
     const existing = await this.blobsRepo.findByCid(ref.cid);
-    if (existing) {
+
+    // A known blob is fetched again when a label asks for bytes an earlier
+    // policy did not store, and a video until it has keyframes, e.g. one
+    // hashed before they were extracted
+    const needsStorage =
+      !!this.storage && storesBlobs(policy) && !existing?.storage_path;
+    const needsFrames =
+      !!existing &&
+      this.extractsFrames(ref.mimeType ?? existing.mimetype) &&
+      !(await this.framesRepo.hasFrames(ref.cid));
+
+    if (existing && !needsStorage && !needsFrames) {
+      // The stored bytes may only be referenced where this policy would
+      // have stored them itself
       await this.blobsRepo.insert({
         post_uri: postUri,
         blob_cid: ref.cid,
         sha256: existing.sha256,
         phash: existing.phash,
-        storage_path: existing.storage_path,
+        dct_phash: existing.dct_phash,
+        pdq: existing.pdq,
+        pdq_quality: existing.pdq_quality,
+        storage_path: storesBlobs(policy) ? existing.storage_path : undefined,
         mimetype: existing.mimetype,
       });
       logger.debug(
@@ -134,7 +157,7 @@ export class BlobProcessor {
     }
 
     const { did, type } = this.parseBlobUri(postUri);
-    const pds = `https://${config.bsky.pds}`;
+    const pds = await pdsEndpointForDid(did);
     const blobUrl = `${pds}/xrpc/com.atproto.sync.getBlob?did=${did}&cid=${ref.cid}`;
 
     try {
@@ -151,7 +174,7 @@ export class BlobProcessor {
       const blobData = Buffer.from(await response.arrayBuffer());
 
       let storagePath: string | undefined;
-      if (this.storage && config.blobs.hydrateBlobs) {
+      if (this.storage && storesBlobs(policy)) {
         storagePath = await this.storage.store(
           ref.cid,
           blobData,
@@ -169,10 +192,17 @@ export class BlobProcessor {
         blob_cid: ref.cid,
         sha256: hashes.sha256,
         phash: hashes.phash,
+        dct_phash: hashes.dctPhash,
+        pdq: hashes.pdq,
+        pdq_quality: hashes.pdqQuality,
         storage_path: storagePath,
         mimetype: ref.mimeType,
       });
 
+      if (this.extractsFrames(ref.mimeType)) {
+        await this.processVideoFrames(ref.cid, blobData);
+      }
+
       logger.info(
         { postUri, cid: ref.cid, sha256: hashes.sha256, type },
         "Blob processed successfully"
@@ -185,4 +215,34 @@ export class BlobProcessor {
       throw error;
     }
   }
+
+  private extractsFrames(mimeType?: string): boolean {
+    return config.blobs.video.extractFrames && isVideoMimeType(mimeType);
+  }
+
+  private async processVideoFrames(cid: string, data: Buffer): Promise<void> {
+    if (await this.framesRepo.hasFrames(cid)) {
+      return;
+    }
+
+    try {
+      const frames = await computeVideoFrameHashes(data);
+
+      for (const frame of frames) {
+        await this.framesRepo.insert({
+          blob_cid: cid,
+          frame_index: frame.index,
+          pts_seconds: frame.ptsSeconds,
+          phash: frame.phash,
+          dct_phash: frame.dctPhash,
+          pdq: frame.pdq,
+          pdq_quality: frame.pdqQuality,
+        });
+      }
+
+      logger.debug({ cid, frames: frames.length }, "Video keyframes hashed");
+    } catch (error) {
+      logger.warn({ error, cid }, "Failed to hash video keyframes");
+    }
+  }
 }
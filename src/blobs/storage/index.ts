@@ -0,0 +1,14 @@
+import { BlobStorage } from "../processor.js";
+import { LocalBlobStorage } from "./local.js";
+import { S3BlobStorage } from "./s3.js";
+import { config } from "../../config/index.js";
+
+export function createBlobStorage(): BlobStorage {
+  if (config.blobs.storage.type === "s3") {
+    return new S3BlobStorage(
+      config.blobs.storage.s3Bucket!,
+      config.blobs.storage.s3Region!
+    );
+  }
+  return new LocalBlobStorage(config.blobs.storage.localPath);
+}
@@ -0,0 +1,107 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+import { computePerceptualHashes, PerceptualHashes } from "./hasher.js";
+import { config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG_TIMEOUT = 60000;
+const FFMPEG_MAX_OUTPUT = 16 * 1024 * 1024;
+
+export interface VideoFrame {
+  index: number;
+  ptsSeconds?: number;
+  data: Buffer;
+}
+
+export interface FrameHashes extends PerceptualHashes {
+  index: number;
+  ptsSeconds?: number;
+}
+
+export function isVideoMimeType(mimetype?: string): boolean {
+  return mimetype === "video/mp4" || mimetype === "video/webm";
+}
+
+/**
+ * Parses frame timestamps from ffmpeg's showinfo filter output, in the
+ * order the frames were written.
+ */
+export function parseShowinfoTimestamps(stderr: string): number[] {
+  const timestamps: number[] = [];
+  for (const match of stderr.matchAll(/Parsed_showinfo.*?pts_time:\s*(-?[\d.]+)/g)) {
+    timestamps.push(parseFloat(match[1]));
+  }
+  return timestamps;
+}
+
+/**
+ * Decodes the keyframes of a video with ffmpeg, up to maxFrames. Frames are
+ * returned as PNG buffers in presentation order.
+ */
+export async function extractKeyframes(
+  buffer: Buffer,
+  maxFrames = config.blobs.video.maxFrames
+): Promise<VideoFrame[]> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "skywatch-frames-"));
+
+  try {
+    const input = path.join(dir, "input");
+    await fs.writeFile(input, buffer);
+
+    const { stderr } = await execFileAsync(
+      config.blobs.video.ffmpegPath,
+      [
+        "-hide_banner",
+        "-nostdin",
+        "-skip_frame", "nokey",
+        "-i", input,
+        "-vf", "showinfo",
+        "-fps_mode", "vfr",
+        "-frames:v", String(maxFrames),
+        path.join(dir, "frame-%04d.png"),
+      ],
+      { timeout: FFMPEG_TIMEOUT, maxBuffer: FFMPEG_MAX_OUTPUT }
+    );
+
+    const timestamps = parseShowinfoTimestamps(stderr);
+    const files = (await fs.readdir(dir))
+      .filter((name) => name.startsWith("frame-"))
+      .sort();
+
+    const frames: VideoFrame[] = [];
+    for (const [index, file] of files.entries()) {
+      frames.push({
+        index,
+        ptsSeconds: timestamps[index],
+        data: await fs.readFile(path.join(dir, file)),
+      });
+    }
+    return frames;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch((error) => {
+      logger.warn({ error, dir }, "Failed to remove frame extraction directory");
+    });
+  }
+}
+
+export async function computeVideoFrameHashes(
+  buffer: Buffer
+): Promise<FrameHashes[]> {
+  const frames = await extractKeyframes(buffer);
+  const hashes: FrameHashes[] = [];
+
+  for (const frame of frames) {
+    hashes.push({
+      index: frame.index,
+      ptsSeconds: frame.ptsSeconds,
+      ...(await computePerceptualHashes(frame.data)),
+    });
+  }
+
+  return hashes;
+}
@@ -1,7 +1,22 @@
 import { z } from "zod";
 import dotenv from "dotenv";
+import * as fs from "fs";
 
-dotenv.config();
+// Variables set in the real environment take precedence over .env, both at
+// startup and on reload
+const processEnv = { ...process.env };
+
+export const ENV_FILE = ".env";
+
+dotenv.config({ path: ENV_FILE });
+
+// Ordered from least to most hydration; see hydration/policy.ts
+export const HYDRATION_POLICIES = [
+  "none",
+  "record-only",
+  "hashes-only",
+  "full-blob",
+] as const;
 
 const configSchema = z.object({
   bsky: z.object({
@@ -11,9 +26,57 @@ const configSchema = z.object({
   }),
   plc: z.object({
     endpoint: z.string().url().default("https://plc.wtf"),
+    // Configured in seconds, held in milliseconds
+    cacheTtl: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(3600)
+      .transform((seconds) => seconds * 1000),
+  }),
+  identity: z.object({
+    // How long a stored identity is trusted before the DID and handle are
+    // checked again; seconds, held in milliseconds
+    cacheTtl: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(86400)
+      .transform((seconds) => seconds * 1000),
   }),
   labeler: z.object({
-    wssUrl: z.string().url("WSS_URL must be a valid URL"),
+    wssUrls: z
+      .array(z.string().url("WSS_URL entries must be valid URLs"))
+      .min(1, "WSS_URL is required"),
+    signaturePolicy: z.enum(["reject", "quarantine", "off"]).default("quarantine"),
+    batchSize: z.coerce.number().int().min(1).max(10000).default(100),
+    flushInterval: z.coerce.number().int().min(100).default(1000),
+    captureDir: z.string().optional(),
+  }),
+  hydration: z.object({
+    concurrency: z.coerce.number().int().min(1).max(48).default(8),
+    defaultPolicy: z.enum(HYDRATION_POLICIES).optional(),
+    policies: z.record(z.enum(HYDRATION_POLICIES)).default({}),
+    // Levels of reply parents, thread roots and quoted posts fetched
+    // around each labeled post; 0 disables context hydration
+    contextDepth: z.coerce.number().int().min(0).max(5).default(0),
+  }),
+  recheck: z.object({
+    // Seconds between re-check runs, held in milliseconds; 0 disables
+    interval: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .transform((seconds) => seconds * 1000),
+    // Seconds before a post is checked again, held in milliseconds
+    minAge: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(86400)
+      .transform((seconds) => seconds * 1000),
+    batchSize: z.coerce.number().int().min(1).max(10000).default(100),
   }),
   blobs: z.object({
     hydrateBlobs: z.boolean().default(false),
@@ -23,12 +86,26 @@ const configSchema = z.object({
       s3Bucket: z.string().optional(),
       s3Region: z.string().optional(),
     }),
+    video: z.object({
+      extractFrames: z.boolean().default(false),
+      ffmpegPath: z.string().default("ffmpeg"),
+      maxFrames: z.coerce.number().int().min(1).max(256).default(32),
+    }),
   }),
   database: z.object({
     path: z.string().default("./data/skywatch.duckdb"),
   }),
   filtering: z.object({
     captureLabels: z.array(z.string()).optional(),
+    rulesFile: z.string().optional(),
+  }),
+  api: z.object({
+    enabled: z.boolean().default(false),
+    host: z.string().default("127.0.0.1"),
+    port: z.coerce.number().int().min(1).max(65535).default(3000),
+  }),
+  reload: z.object({
+    watch: z.boolean().default(false),
   }),
   logging: z.object({
     level: z
@@ -39,47 +116,114 @@ const configSchema = z.object({
 
 export type Config = z.infer<typeof configSchema>;
 
-function loadConfig(): Config {
+// "val:policy,val:policy"; an entry without a policy is left for the
+// schema to reject
+function parsePolicyList(value: string): Record<string, string | undefined> {
+  const policies: Record<string, string | undefined> = {};
+  for (const entry of value.split(",")) {
+    if (!entry.trim()) continue;
+    const separator = entry.lastIndexOf(":");
+    if (separator === -1) {
+      policies[entry.trim()] = undefined;
+    } else {
+      policies[entry.slice(0, separator).trim()] = entry
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+  return policies;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Validates a set of environment variables. Throws a ConfigError naming
+ * every invalid field.
+ */
+export function parseConfig(env: NodeJS.ProcessEnv): Config {
   const rawConfig = {
     bsky: {
-      handle: process.env.BSKY_HANDLE,
-      password: process.env.BSKY_PASSWORD,
-      pds: process.env.PDS,
+      handle: env.BSKY_HANDLE,
+      password: env.BSKY_PASSWORD,
+      pds: env.PDS,
     },
     plc: {
-      endpoint: process.env.PLC_ENDPOINT,
+      endpoint: env.PLC_ENDPOINT,
+      cacheTtl: env.DID_CACHE_TTL,
+    },
+    identity: {
+      cacheTtl: env.IDENTITY_CACHE_TTL,
     },
     labeler: {
-      wssUrl: process.env.WSS_URL,
+      wssUrls: env.WSS_URL
+        ? env.WSS_URL.split(",").map((u) => u.trim()).filter(Boolean)
+        : undefined,
+      signaturePolicy: env.LABEL_SIGNATURE_POLICY,
+      batchSize: env.FIREHOSE_BATCH_SIZE,
+      flushInterval: env.FIREHOSE_FLUSH_INTERVAL_MS,
+      captureDir: env.FIREHOSE_CAPTURE_DIR || undefined,
+    },
+    hydration: {
+      concurrency: env.HYDRATION_CONCURRENCY,
+      defaultPolicy: env.HYDRATION_DEFAULT_POLICY || undefined,
+      policies: env.HYDRATION_POLICIES
+        ? parsePolicyList(env.HYDRATION_POLICIES)
+        : undefined,
+      contextDepth: env.HYDRATION_CONTEXT_DEPTH,
+    },
+    recheck: {
+      interval: env.RECHECK_INTERVAL,
+      minAge: env.RECHECK_MIN_AGE,
+      batchSize: env.RECHECK_BATCH_SIZE,
     },
     blobs: {
-      hydrateBlobs: process.env.HYDRATE_BLOBS === "true",
+      hydrateBlobs: env.HYDRATE_BLOBS === "true",
       storage: {
-        type: process.env.BLOB_STORAGE_TYPE,
-        localPath: process.env.BLOB_STORAGE_PATH,
-        s3Bucket: process.env.S3_BUCKET,
-        s3Region: process.env.S3_REGION,
+        type: env.BLOB_STORAGE_TYPE,
+        localPath: env.BLOB_STORAGE_PATH,
+        s3Bucket: env.S3_BUCKET,
+        s3Region: env.S3_REGION,
+      },
+      video: {
+        extractFrames: env.VIDEO_FRAMES === "true",
+        ffmpegPath: env.FFMPEG_PATH,
+        maxFrames: env.VIDEO_MAX_FRAMES,
       },
     },
     database: {
-      path: process.env.DB_PATH,
+      path: env.DB_PATH,
     },
     filtering: {
-      captureLabels: process.env.CAPTURE_LABELS
-        ? process.env.CAPTURE_LABELS.split(",").map((l) => l.trim())
+      captureLabels: env.CAPTURE_LABELS
+        ? env.CAPTURE_LABELS.split(",").map((l) => l.trim())
         : undefined,
+      rulesFile: env.FILTER_RULES_FILE || undefined,
+    },
+    api: {
+      enabled: env.API_ENABLED === "true",
+      host: env.API_HOST || undefined,
+      port: env.API_PORT,
+    },
+    reload: {
+      watch: env.CONFIG_WATCH === "true",
     },
     logging: {
-      level: process.env.LOG_LEVEL,
+      level: env.LOG_LEVEL,
     },
   };
 
   const result = configSchema.safeParse(rawConfig);
 
   if (!result.success) {
-    console.error("Configuration validation failed:");
-    console.error(result.error.format());
-    process.exit(1);
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new ConfigError(`Configuration validation failed: ${issues}`);
   }
 
   if (result.data.blobs.storage.type === "s3") {
@@ -87,14 +231,39 @@ function loadConfig(): Config {
       !result.data.blobs.storage.s3Bucket ||
       !result.data.blobs.storage.s3Region
     ) {
-      console.error(
+      throw new ConfigError(
         "S3 configuration is incomplete. Required: S3_BUCKET, S3_REGION"
       );
-      process.exit(1);
     }
   }
 
+  const hosts = result.data.labeler.wssUrls.map((u) => new URL(u).host);
+  if (new Set(hosts).size !== hosts.length) {
+    throw new ConfigError("WSS_URL lists the same labeler host more than once");
+  }
+
   return result.data;
 }
 
+/**
+ * Re-reads .env and validates it against the environment the process
+ * started with. The running config is left untouched.
+ */
+export function readConfig(): Config {
+  let fileEnv: Record<string, string> = {};
+  if (fs.existsSync(ENV_FILE)) {
+    fileEnv = dotenv.parse(fs.readFileSync(ENV_FILE));
+  }
+  return parseConfig({ ...fileEnv, ...processEnv });
+}
+
+function loadConfig(): Config {
+  try {
+    return parseConfig(process.env);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
 export const config = loadConfig();
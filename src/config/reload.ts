@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import { Config, ENV_FILE, config, readConfig } from "./index.js";
+import { logger } from "../logger/index.js";
+import { reloadFilterRules } from "../firehose/filter.js";
+
+const WATCH_INTERVAL = 2000;
+
+// Sections applied to the running process; changes anywhere else are
+// picked up on the next restart
+const RELOADABLE: (keyof Config)[] = ["filtering", "logging"];
+
+/**
+ * Re-reads .env and the filter rules file and swaps in the filter rules
+ * and log level. An invalid config is rejected as a whole and the running
+ * config is kept. Returns whether the reload was applied.
+ */
+export function reloadConfig(): boolean {
+  let next: Config;
+  try {
+    next = readConfig();
+    reloadFilterRules(next.filtering);
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : error },
+      "Config reload rejected, keeping previous configuration"
+    );
+    return false;
+  }
+
+  const restartRequired = (Object.keys(next) as (keyof Config)[]).filter(
+    (section) =>
+      !RELOADABLE.includes(section) &&
+      JSON.stringify(next[section]) !== JSON.stringify(config[section])
+  );
+  if (restartRequired.length > 0) {
+    logger.warn(
+      { sections: restartRequired },
+      "Config changes outside filtering and logging need a restart"
+    );
+  }
+
+  config.filtering = next.filtering;
+  config.logging = next.logging;
+  logger.level = next.logging.level;
+
+  logger.info(
+    { level: next.logging.level, rulesFile: next.filtering.rulesFile },
+    "Config reloaded"
+  );
+  return true;
+}
+
+/**
+ * Polls .env and the filter rules file and reloads when either changes.
+ * Returns a function that stops watching.
+ */
+export function watchConfig(): () => void {
+  const watched = new Set<string>();
+
+  const onChange = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    reloadConfig();
+    // The rules file may have moved with the reload
+    sync();
+  };
+
+  const sync = () => {
+    const files = [ENV_FILE, config.filtering.rulesFile].filter(
+      (file): file is string => Boolean(file)
+    );
+
+    for (const file of watched) {
+      if (!files.includes(file)) {
+        fs.unwatchFile(file, onChange);
+        watched.delete(file);
+      }
+    }
+    for (const file of files) {
+      if (!watched.has(file)) {
+        fs.watchFile(file, { interval: WATCH_INTERVAL, persistent: false }, onChange);
+        watched.add(file);
+      }
+    }
+  };
+
+  sync();
+  logger.info({ files: [...watched] }, "Watching config files for changes");
+
+  return () => {
+    for (const file of watched) {
+      fs.unwatchFile(file, onChange);
+    }
+    watched.clear();
+  };
+}
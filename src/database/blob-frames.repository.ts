@@ -0,0 +1,129 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export interface BlobFrame {
+  blob_cid: string;
+  frame_index: number;
+  pts_seconds?: number;
+  phash?: string;
+  dct_phash?: string;
+  pdq?: string;
+  pdq_quality?: number;
+}
+
+export interface SimilarBlobFrame extends BlobFrame {
+  distance: number;
+}
+
+export class BlobFramesRepository {
+  constructor(private db: Database) {}
+
+  async insert(frame: BlobFrame): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.prepare(
+        `
+        INSERT INTO blob_frames (blob_cid, frame_index, pts_seconds, phash, phash_bits, dct_phash, pdq, pdq_quality)
+        VALUES ($1, $2, $3, $4, TRY_CAST('0x' || $4 AS UBIGINT), $5, $6, $7)
+        ON CONFLICT (blob_cid, frame_index) DO UPDATE SET
+          pts_seconds = EXCLUDED.pts_seconds,
+          phash = EXCLUDED.phash,
+          phash_bits = EXCLUDED.phash_bits,
+          dct_phash = EXCLUDED.dct_phash,
+          pdq = EXCLUDED.pdq,
+          pdq_quality = EXCLUDED.pdq_quality
+      `,
+        (err, stmt) => {
+          if (err) {
+            logger.error({ err }, "Failed to prepare blob frame insert statement");
+            reject(err);
+            return;
+          }
+
+          stmt.run(
+            frame.blob_cid,
+            frame.frame_index,
+            frame.pts_seconds ?? null,
+            frame.phash || null,
+            frame.dct_phash || null,
+            frame.pdq || null,
+            frame.pdq_quality ?? null,
+            (err) => {
+              if (err) {
+                logger.error({ err, frame }, "Failed to insert blob frame");
+                reject(err);
+                return;
+              }
+              resolve();
+            }
+          );
+        }
+      );
+    });
+  }
+
+  async findByCid(cid: string): Promise<BlobFrame[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * EXCLUDE (phash_bits) FROM blob_frames WHERE blob_cid = $1 ORDER BY frame_index`,
+        cid,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, cid }, "Failed to find blob frames by CID");
+            reject(err);
+            return;
+          }
+          resolve((rows as BlobFrame[]) || []);
+        }
+      );
+    });
+  }
+
+  async hasFrames(cid: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT 1 FROM blob_frames WHERE blob_cid = $1 LIMIT 1`,
+        cid,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, cid }, "Failed to check blob frames");
+            reject(err);
+            return;
+          }
+          resolve((rows || []).length > 0);
+        }
+      );
+    });
+  }
+
+  async findSimilarByPhash(
+    phash: string,
+    maxDistance: number,
+    limit = 100
+  ): Promise<SimilarBlobFrame[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * EXCLUDE (phash_bits) FROM (
+          SELECT *, bit_count(xor(phash_bits, TRY_CAST('0x' || $1 AS UBIGINT)))::INTEGER AS distance
+          FROM blob_frames
+          WHERE phash_bits IS NOT NULL
+        )
+        WHERE distance <= $2
+        ORDER BY distance, blob_cid, frame_index
+        LIMIT $3
+      `,
+        phash,
+        maxDistance,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, phash, maxDistance }, "Failed to find similar blob frames by pHash");
+            reject(err);
+            return;
+          }
+          resolve((rows as SimilarBlobFrame[]) || []);
+        }
+      );
+    });
+  }
+}
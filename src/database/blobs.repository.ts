@@ -6,10 +6,28 @@ export interface Blob {
   blob_cid: string;
   sha256: string;
   phash?: string;
+  dct_phash?: string;
+  pdq?: string;
+  pdq_quality?: number;
   storage_path?: string;
   mimetype?: string;
 }
 
+export interface StoredBlobRef {
+  blob_cid: string;
+  mimetype?: string;
+}
+
+export interface ExtendedHashes {
+  dct_phash?: string;
+  pdq?: string;
+  pdq_quality?: number;
+}
+
+export interface SimilarBlob extends Blob {
+  distance: number;
+}
+
 export class BlobsRepository {
   constructor(private db: Database) {}
 
@@ -17,11 +35,15 @@ export class BlobsRepository {
     return new Promise((resolve, reject) => {
       this.db.prepare(
         `
-        INSERT INTO blobs (post_uri, blob_cid, sha256, phash, storage_path, mimetype)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO blobs (post_uri, blob_cid, sha256, phash, phash_bits, storage_path, mimetype, dct_phash, pdq, pdq_quality)
+        VALUES ($1, $2, $3, $4, TRY_CAST('0x' || $4 AS UBIGINT), $5, $6, $7, $8, $9)
         ON CONFLICT (post_uri, blob_cid) DO UPDATE SET
           sha256 = EXCLUDED.sha256,
           phash = EXCLUDED.phash,
+          phash_bits = EXCLUDED.phash_bits,
+          dct_phash = EXCLUDED.dct_phash,
+          pdq = EXCLUDED.pdq,
+          pdq_quality = EXCLUDED.pdq_quality,
           storage_path = EXCLUDED.storage_path,
           mimetype = EXCLUDED.mimetype
       `,
@@ -39,6 +61,9 @@ export class BlobsRepository {
             blob.phash || null,
             blob.storage_path || null,
             blob.mimetype || null,
+            blob.dct_phash || null,
+            blob.pdq || null,
+            blob.pdq_quality ?? null,
             (err) => {
               if (err) {
                 logger.error({ err, blob }, "Failed to insert blob");
@@ -87,11 +112,30 @@ export class BlobsRepository {
     });
   }
 
-  async findByPhash(phash: string): Promise<Blob[]> {
+  async findAllBySha256(sha256: string, limit = 100): Promise<Blob[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM blobs WHERE sha256 = $1 ORDER BY post_uri LIMIT $2`,
+        sha256,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, sha256 }, "Failed to find blobs by SHA256");
+            reject(err);
+            return;
+          }
+          resolve((rows as Blob[]) || []);
+        }
+      );
+    });
+  }
+
+  async findByPhash(phash: string, limit = 100): Promise<Blob[]> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        `SELECT * FROM blobs WHERE phash = $1`,
+        `SELECT * FROM blobs WHERE phash = $1 ORDER BY post_uri LIMIT $2`,
         phash,
+        limit,
         (err, rows: Blob[]) => {
           if (err) {
             logger.error({ err, phash }, "Failed to find blobs by pHash");
@@ -104,10 +148,50 @@ export class BlobsRepository {
     });
   }
 
+  /**
+   * Finds blobs whose pHash is within maxDistance bits of the given hash,
+   * closest first. Compares the integer phash_bits column, which DuckDB
+   * scans with vectorised xor/bit_count.
+   */
+  async findSimilarByPhash(
+    phash: string,
+    maxDistance: number,
+    limit = 100
+  ): Promise<SimilarBlob[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * EXCLUDE (phash_bits) FROM (
+          SELECT *, bit_count(xor(phash_bits, TRY_CAST('0x' || $1 AS UBIGINT)))::INTEGER AS distance
+          FROM blobs
+          WHERE phash_bits IS NOT NULL
+        )
+        WHERE distance <= $2
+        ORDER BY distance, post_uri
+        LIMIT $3
+      `,
+        phash,
+        maxDistance,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, phash, maxDistance }, "Failed to find similar blobs by pHash");
+            reject(err);
+            return;
+          }
+          resolve((rows as SimilarBlob[]) || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Any row of a blob, preferring one whose bytes were stored.
+   */
   async findByCid(cid: string): Promise<Blob | null> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        `SELECT * FROM blobs WHERE blob_cid = $1 LIMIT 1`,
+        `SELECT * FROM blobs WHERE blob_cid = $1 ORDER BY storage_path IS NULL LIMIT 1`,
         cid,
         (err, rows: Blob[]) => {
           if (err) {
@@ -120,4 +204,63 @@ export class BlobsRepository {
       );
     });
   }
+
+  /**
+   * Lists stored image blobs still missing the DCT pHash or PDQ columns,
+   * one row per CID, ordered by CID for paging.
+   */
+  async findMissingExtendedHashes(
+    afterCid: string | null,
+    limit: number
+  ): Promise<StoredBlobRef[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT blob_cid, ANY_VALUE(mimetype) AS mimetype
+        FROM blobs
+        WHERE storage_path IS NOT NULL
+          AND (dct_phash IS NULL OR pdq IS NULL)
+          AND (mimetype IS NULL OR mimetype LIKE 'image/%')
+          AND ($1::TEXT IS NULL OR blob_cid > $1::TEXT)
+        GROUP BY blob_cid
+        ORDER BY blob_cid
+        LIMIT $2
+      `,
+        afterCid,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err }, "Failed to find blobs missing extended hashes");
+            reject(err);
+            return;
+          }
+          resolve((rows as StoredBlobRef[]) || []);
+        }
+      );
+    });
+  }
+
+  async updateExtendedHashes(cid: string, hashes: ExtendedHashes): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        UPDATE blobs
+        SET dct_phash = $2, pdq = $3, pdq_quality = $4
+        WHERE blob_cid = $1
+      `,
+        cid,
+        hashes.dct_phash || null,
+        hashes.pdq || null,
+        hashes.pdq_quality ?? null,
+        (err) => {
+          if (err) {
+            logger.error({ err, cid }, "Failed to update blobs extended hashes");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
 }
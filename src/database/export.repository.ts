@@ -0,0 +1,239 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+import { COLLECTION_TASK_TYPES } from "../hydration/routing.js";
+
+export const EXPORT_SCHEMA_VERSION = 3;
+
+const EXPORT_TABLE = "training_export";
+
+export type ExportFormat = "parquet" | "jsonl";
+
+export interface ExportFilters {
+  vals?: string[];
+  since?: string;
+  until?: string;
+  effectiveOnly?: boolean;
+}
+
+export interface ExportCounts {
+  rows: number;
+  posts: number;
+  records: number;
+  profiles: number;
+  post_blobs: number;
+  profile_blobs: number;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// The subject type of a label, matching how it is routed to a hydrator:
+// accounts and profile records are profiles, other records are typed by
+// collection and records of unknown collections are just records
+const SUBJECT_TYPE_SQL = `
+  CASE
+    WHEN uri LIKE 'did:%' OR regexp_matches(uri, '^at://[^/]+$') THEN 'profile'
+    WHEN split_part(uri, '/', 4) = 'app.bsky.actor.profile' THEN 'profile'
+    ${Object.entries(COLLECTION_TASK_TYPES)
+      .map(
+        ([collection, type]) =>
+          `WHEN split_part(uri, '/', 4) = ${quoteLiteral(collection)} THEN ${quoteLiteral(type)}`
+      )
+      .join("\n    ")}
+    ELSE 'record'
+  END`;
+
+/**
+ * Builds the denormalized training table: one row per label with the
+ * labeled post or record, the subject's profile and the hashes of every
+ * blob attached to either. Posts stored only as context of another labeled
+ * post are flagged with post_is_context, as their blobs were not fetched.
+ */
+export class ExportRepository {
+  constructor(private db: Database) {}
+
+  async build(filters: ExportFilters): Promise<void> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace("?", `$${params.length}`));
+    };
+
+    if (filters.vals && filters.vals.length > 0) {
+      const placeholders = filters.vals.map((val) => {
+        params.push(val);
+        return `$${params.length}`;
+      });
+      conditions.push(`val IN (${placeholders.join(", ")})`);
+    }
+    if (filters.since) addCondition("cts >= ?::TIMESTAMP", filters.since);
+    if (filters.until) addCondition("cts < ?::TIMESTAMP", filters.until);
+
+    if (filters.effectiveOnly) {
+      conditions.push("NOT neg AND (exp IS NULL OR exp > now())");
+    }
+
+    // label_state already excludes labels that failed signature checks
+    const source = filters.effectiveOnly
+      ? "label_state"
+      : "(SELECT * FROM labels WHERE sig_status IS NULL OR sig_status = 'valid')";
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const sql = `
+      CREATE OR REPLACE TEMP TABLE ${EXPORT_TABLE} AS
+      WITH selected AS (
+        SELECT
+          uri, cid, val, src, neg, cts, exp,
+          ${SUBJECT_TYPE_SQL} AS subject_type,
+          CASE WHEN uri LIKE 'did:%' THEN uri ELSE split_part(substr(uri, 6), '/', 1) END AS subject_did
+        FROM ${source}
+        ${where}
+      )
+      SELECT
+        l.uri,
+        l.cid,
+        l.val,
+        l.src,
+        l.neg,
+        l.cts,
+        l.exp,
+        l.subject_type,
+        l.subject_did,
+        p.uri IS NOT NULL AS post_hydrated,
+        COALESCE(li.uri, fg.uri, sp.uri) IS NOT NULL AS record_hydrated,
+        pr.did IS NOT NULL AS profile_hydrated,
+        p.text AS post_text,
+        p.facets AS post_facets,
+        p.embeds AS post_embeds,
+        p.langs AS post_langs,
+        p.tags AS post_tags,
+        p.created_at AS post_created_at,
+        p.is_reply AS post_is_reply,
+        p.reply_parent_uri AS post_reply_parent_uri,
+        p.reply_root_uri AS post_reply_root_uri,
+        p.quote_uri AS post_quote_uri,
+        COALESCE(p.is_context, FALSE) AS post_is_context,
+        COALESCE(li.name, fg.display_name, sp.name) AS record_name,
+        COALESCE(li.description, fg.description, sp.description) AS record_description,
+        COALESCE(li.created_at, fg.created_at, sp.created_at) AS record_created_at,
+        li.purpose AS list_purpose,
+        fg.service_did AS feedgen_service_did,
+        sp.list_uri AS starterpack_list_uri,
+        sp.feeds AS starterpack_feeds,
+        pr.handle AS profile_handle,
+        pr.display_name AS profile_display_name,
+        pr.description AS profile_description,
+        (
+          SELECT list({
+            'blob_cid': b.blob_cid, 'sha256': b.sha256, 'phash': b.phash,
+            'dct_phash': b.dct_phash, 'pdq': b.pdq, 'pdq_quality': b.pdq_quality,
+            'mimetype': b.mimetype
+          } ORDER BY b.blob_cid)
+          FROM blobs b WHERE b.post_uri = l.uri
+        ) AS post_blobs,
+        (
+          SELECT list({
+            'blob_type': pb.blob_type, 'blob_cid': pb.blob_cid, 'sha256': pb.sha256,
+            'phash': pb.phash, 'dct_phash': pb.dct_phash, 'pdq': pb.pdq,
+            'pdq_quality': pb.pdq_quality, 'mimetype': pb.mimetype,
+            'captured_at': pb.captured_at
+          } ORDER BY pb.captured_at DESC)
+          FROM profile_blobs pb WHERE pb.did = l.subject_did
+        ) AS profile_blobs
+      FROM selected l
+      LEFT JOIN posts p ON l.subject_type = 'post' AND p.uri = l.uri
+      LEFT JOIN lists li ON l.subject_type = 'list' AND li.uri = l.uri
+      LEFT JOIN feed_generators fg ON l.subject_type = 'feedgen' AND fg.uri = l.uri
+      LEFT JOIN starter_packs sp ON l.subject_type = 'starterpack' AND sp.uri = l.uri
+      LEFT JOIN profiles pr ON pr.did = l.subject_did
+      ORDER BY l.cts, l.uri, l.val
+    `;
+
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, ...params, (err: Error | null) => {
+        if (err) {
+          logger.error({ err, filters }, "Failed to build export table");
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  async counts(): Promise<ExportCounts> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT
+          COUNT(*)::INTEGER AS rows,
+          COUNT(DISTINCT uri) FILTER (WHERE post_hydrated)::INTEGER AS posts,
+          COUNT(DISTINCT uri) FILTER (WHERE record_hydrated)::INTEGER AS records,
+          COUNT(DISTINCT subject_did) FILTER (WHERE profile_hydrated)::INTEGER AS profiles,
+          (
+            SELECT COUNT(DISTINCT blob.blob_cid)
+            FROM (SELECT unnest(post_blobs) AS blob FROM ${EXPORT_TABLE})
+          )::INTEGER AS post_blobs,
+          (
+            SELECT COUNT(DISTINCT blob.blob_cid)
+            FROM (SELECT unnest(profile_blobs) AS blob FROM ${EXPORT_TABLE})
+          )::INTEGER AS profile_blobs
+        FROM ${EXPORT_TABLE}
+      `,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err }, "Failed to count export rows");
+            reject(err);
+            return;
+          }
+          resolve((rows as ExportCounts[])[0]);
+        }
+      );
+    });
+  }
+
+  async blobCids(): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT DISTINCT blob.blob_cid AS cid FROM (
+          SELECT unnest(post_blobs) AS blob FROM ${EXPORT_TABLE}
+          UNION ALL
+          SELECT unnest(profile_blobs) AS blob FROM ${EXPORT_TABLE}
+        )
+        ORDER BY cid
+      `,
+        (err, rows: any[]) => {
+          if (err) {
+            logger.error({ err }, "Failed to list exported blob CIDs");
+            reject(err);
+            return;
+          }
+          resolve((rows || []).map((row) => row.cid));
+        }
+      );
+    });
+  }
+
+  async write(path: string, format: ExportFormat): Promise<void> {
+    const options =
+      format === "parquet" ? "FORMAT PARQUET, COMPRESSION ZSTD" : "FORMAT JSON";
+
+    return new Promise((resolve, reject) => {
+      this.db.exec(
+        `COPY ${EXPORT_TABLE} TO ${quoteLiteral(path)} (${options})`,
+        (err) => {
+          if (err) {
+            logger.error({ err, path, format }, "Failed to write export file");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export interface FeedGenerator {
+  uri: string;
+  did: string;
+  // DID of the service that serves the feed, not the record's repo
+  service_did?: string;
+  display_name?: string;
+  description?: string;
+  avatar_cid?: string;
+  created_at?: string;
+}
+
+export class FeedGeneratorsRepository {
+  constructor(private db: Database) {}
+
+  async insert(feed: FeedGenerator): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.prepare(
+        `
+        INSERT INTO feed_generators (uri, did, service_did, display_name, description, avatar_cid, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (uri) DO UPDATE SET
+          service_did = EXCLUDED.service_did,
+          display_name = EXCLUDED.display_name,
+          description = EXCLUDED.description,
+          avatar_cid = EXCLUDED.avatar_cid
+      `,
+        (err, stmt) => {
+          if (err) {
+            logger.error({ err }, "Failed to prepare feed generator insert statement");
+            reject(err);
+            return;
+          }
+
+          stmt.run(
+            feed.uri,
+            feed.did,
+            feed.service_did || null,
+            feed.display_name || null,
+            feed.description || null,
+            feed.avatar_cid || null,
+            feed.created_at || null,
+            (err) => {
+              if (err) {
+                logger.error({ err, feed }, "Failed to insert feed generator");
+                reject(err);
+                return;
+              }
+              resolve();
+            }
+          );
+        }
+      );
+    });
+  }
+
+  async findByUri(uri: string): Promise<FeedGenerator | null> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM feed_generators WHERE uri = $1`,
+        uri,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, uri }, "Failed to find feed generator by URI");
+            reject(err);
+            return;
+          }
+          resolve((rows as FeedGenerator[])?.[0] || null);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export interface FirehoseEvent {
+  id?: number;
+  subscription: string;
+  kind: "info" | "error";
+  name: string;
+  message?: string;
+  cursor?: number | null;
+  created_at?: Date;
+}
+
+/**
+ * Records #info and error frames received from labelers, so operators can
+ * tell when the stream may have skipped or replayed data.
+ */
+export class FirehoseEventsRepository {
+  constructor(private db: Database) {}
+
+  async record(event: FirehoseEvent): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        INSERT INTO firehose_events (subscription, kind, name, message, cursor)
+        VALUES ($1, $2, $3, $4, $5)
+      `,
+        event.subscription,
+        event.kind,
+        event.name,
+        event.message || null,
+        event.cursor ?? null,
+        (err) => {
+          if (err) {
+            logger.error({ err, event }, "Failed to record firehose event");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+
+  async findBySubscription(subscription: string, limit = 100): Promise<FirehoseEvent[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * FROM firehose_events
+        WHERE subscription = $1
+        ORDER BY id DESC
+        LIMIT $2
+      `,
+        subscription,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, subscription }, "Failed to find firehose events");
+            reject(err);
+            return;
+          }
+          resolve((rows as FirehoseEvent[]) || []);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export type GapStatus = "open" | "filled" | "partial";
+
+/**
+ * A run of missing sequence numbers: everything after from_seq and before
+ * to_seq. Replaying with cursor=from_seq fills it.
+ */
+export interface FirehoseGap {
+  id?: number;
+  subscription: string;
+  from_seq: number;
+  to_seq: number;
+  status?: GapStatus;
+  detected_at?: Date;
+  filled_at?: Date | null;
+}
+
+export class FirehoseGapsRepository {
+  constructor(private db: Database) {}
+
+  async record(gap: FirehoseGap): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        INSERT INTO firehose_gaps (subscription, from_seq, to_seq)
+        VALUES ($1, $2, $3)
+      `,
+        gap.subscription,
+        gap.from_seq,
+        gap.to_seq,
+        (err) => {
+          if (err) {
+            logger.error({ err, gap }, "Failed to record firehose gap");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+
+  async findOpen(subscription?: string): Promise<FirehoseGap[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * FROM firehose_gaps
+        WHERE status = 'open' AND ($1::TEXT IS NULL OR subscription = $1::TEXT)
+        ORDER BY subscription, from_seq
+      `,
+        subscription ?? null,
+        (err, rows: any[]) => {
+          if (err) {
+            logger.error({ err, subscription }, "Failed to find open firehose gaps");
+            reject(err);
+            return;
+          }
+          resolve(
+            (rows || []).map((row) => ({
+              ...row,
+              from_seq: Number(row.from_seq),
+              to_seq: Number(row.to_seq),
+            }))
+          );
+        }
+      );
+    });
+  }
+
+  async markReplayed(id: number, status: Exclude<GapStatus, "open">): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        UPDATE firehose_gaps
+        SET status = $2, filled_at = now()
+        WHERE id = $1
+      `,
+        id,
+        status,
+        (err) => {
+          if (err) {
+            logger.error({ err, id, status }, "Failed to update firehose gap");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+/**
+ * One handle an account was seen claiming. verified reflects the latest
+ * check: whether the handle resolved back to the DID.
+ */
+export interface HandleHistoryEntry {
+  did: string;
+  handle: string;
+  verified: boolean;
+  first_seen?: Date;
+  last_seen?: Date;
+}
+
+export class HandleHistoryRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Records a sighting: a new handle gets a row, a known one has its
+   * last_seen and verified status updated.
+   */
+  async record(did: string, handle: string, verified: boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        INSERT INTO handle_history (did, handle, verified, first_seen, last_seen)
+        VALUES ($1, $2, $3, now(), now())
+        ON CONFLICT (did, handle) DO UPDATE SET
+          verified = EXCLUDED.verified,
+          last_seen = EXCLUDED.last_seen
+      `,
+        did,
+        handle,
+        verified,
+        (err) => {
+          if (err) {
+            logger.error({ err, did, handle }, "Failed to record handle history");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+
+  async findByDid(did: string): Promise<HandleHistoryEntry[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM handle_history WHERE did = $1 ORDER BY first_seen, handle`,
+        did,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, did }, "Failed to find handle history by DID");
+            reject(err);
+            return;
+          }
+          resolve((rows as HandleHistoryEntry[]) || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Every account that has claimed the handle, most recent first.
+   */
+  async findByHandle(handle: string, limit = 100): Promise<HandleHistoryEntry[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM handle_history WHERE handle = $1 ORDER BY last_seen DESC, did LIMIT $2`,
+        handle.toLowerCase(),
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, handle }, "Failed to find handle history by handle");
+            reject(err);
+            return;
+          }
+          resolve((rows as HandleHistoryEntry[]) || []);
+        }
+      );
+    });
+  }
+}
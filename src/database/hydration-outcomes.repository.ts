@@ -0,0 +1,113 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+import { HydrationTaskType } from "./hydration-tasks.repository.js";
+
+/**
+ * What fetching a subject from its PDS found: the record, no record
+ * (deleted), a repo taken down or deactivated, or a failure that says
+ * nothing about the content.
+ */
+export type HydrationStatus =
+  | "ok"
+  | "not_found"
+  | "takendown"
+  | "deactivated"
+  | "error";
+
+export interface HydrationOutcome {
+  id?: number;
+  type: HydrationTaskType;
+  subject: string;
+  status: HydrationStatus;
+  http_status?: number | null;
+  // XRPC error name, e.g. RecordNotFound
+  error?: string | null;
+  message?: string | null;
+  attempted_at?: Date;
+}
+
+export class HydrationOutcomesRepository {
+  constructor(private db: Database) {}
+
+  async record(outcome: HydrationOutcome): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        INSERT INTO hydration_outcomes (type, subject, status, http_status, error, message)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `,
+        outcome.type,
+        outcome.subject,
+        outcome.status,
+        outcome.http_status ?? null,
+        outcome.error ?? null,
+        outcome.message ?? null,
+        (err) => {
+          if (err) {
+            logger.error({ err, outcome }, "Failed to record hydration outcome");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+
+  async findBySubject(subject: string): Promise<HydrationOutcome[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM hydration_outcomes WHERE subject = $1 ORDER BY attempted_at DESC, id DESC`,
+        subject,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, subject }, "Failed to find hydration outcomes");
+            reject(err);
+            return;
+          }
+          resolve((rows as HydrationOutcome[]) || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Labeled posts not checked within the last minAge milliseconds, least
+   * recently checked first. Posts already found deleted are left out; takedowns and
+   * deactivations can be reversed, so those posts are still checked.
+   */
+  async findPostsDueForRecheck(
+    minAge: number,
+    limit: number
+  ): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        WITH latest AS (
+          SELECT subject, max(attempted_at) AS checked_at, arg_max(status, id) AS status
+          FROM hydration_outcomes
+          WHERE type = 'post'
+          GROUP BY subject
+        )
+        SELECT p.uri FROM posts p
+        LEFT JOIN latest o ON o.subject = p.uri
+        WHERE NOT p.is_context
+          AND (o.status IS NULL OR o.status != 'not_found')
+          AND (o.checked_at IS NULL OR o.checked_at < now()::TIMESTAMP - to_milliseconds($1::BIGINT))
+        ORDER BY o.checked_at NULLS FIRST, p.uri
+        LIMIT $2
+      `,
+        minAge,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err }, "Failed to find posts due for re-check");
+            reject(err);
+            return;
+          }
+          resolve(((rows as { uri: string }[]) || []).map((row) => row.uri));
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,149 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export type HydrationTaskType =
+  | "post"
+  | "profile"
+  | "list"
+  | "feedgen"
+  | "starterpack";
+
+export type HydrationTaskStatus = "pending" | "in_flight" | "done" | "failed";
+
+export interface HydrationTaskRecord {
+  type: HydrationTaskType;
+  identifier: string;
+  status: HydrationTaskStatus;
+  attempts: number;
+  last_error?: string | null;
+  next_attempt_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+type TaskKey = Pick<HydrationTaskRecord, "type" | "identifier">;
+
+export class HydrationTasksRepository {
+  constructor(private db: Database) {}
+
+  async enqueue(task: TaskKey): Promise<void> {
+    return this.run(
+      `
+      INSERT INTO hydration_tasks (type, identifier, status, attempts)
+      VALUES ($1, $2, 'pending', 0)
+      ON CONFLICT (type, identifier) DO UPDATE SET
+        status = 'pending',
+        attempts = 0,
+        last_error = NULL,
+        next_attempt_at = NULL,
+        updated_at = now()
+      WHERE hydration_tasks.status IN ('done', 'failed')
+    `,
+      [task.type, task.identifier],
+      "Failed to enqueue hydration task"
+    );
+  }
+
+  async markInFlight(task: TaskKey): Promise<void> {
+    return this.run(
+      `
+      UPDATE hydration_tasks
+      SET status = 'in_flight', attempts = attempts + 1, updated_at = now()
+      WHERE type = $1 AND identifier = $2
+    `,
+      [task.type, task.identifier],
+      "Failed to mark hydration task in flight"
+    );
+  }
+
+  async markDone(task: TaskKey): Promise<void> {
+    return this.run(
+      `
+      UPDATE hydration_tasks
+      SET status = 'done', last_error = NULL, next_attempt_at = NULL, updated_at = now()
+      WHERE type = $1 AND identifier = $2
+    `,
+      [task.type, task.identifier],
+      "Failed to mark hydration task done"
+    );
+  }
+
+  /**
+   * Records a failed attempt. With a next attempt time the task goes back to
+   * pending; without one it is given up on.
+   */
+  async markFailed(
+    task: TaskKey,
+    error: string,
+    nextAttemptAt: Date | null
+  ): Promise<void> {
+    return this.run(
+      `
+      UPDATE hydration_tasks
+      SET
+        status = CASE WHEN $3::TIMESTAMP IS NULL THEN 'failed' ELSE 'pending' END,
+        last_error = $4,
+        next_attempt_at = $3::TIMESTAMP,
+        updated_at = now()
+      WHERE type = $1 AND identifier = $2
+    `,
+      [
+        task.type,
+        task.identifier,
+        nextAttemptAt ? nextAttemptAt.toISOString() : null,
+        error,
+      ],
+      "Failed to mark hydration task failed"
+    );
+  }
+
+  async findUnfinished(): Promise<HydrationTaskRecord[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * FROM hydration_tasks
+        WHERE status IN ('pending', 'in_flight')
+        ORDER BY created_at
+      `,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err }, "Failed to find unfinished hydration tasks");
+            reject(err);
+            return;
+          }
+          resolve((rows as HydrationTaskRecord[]) || []);
+        }
+      );
+    });
+  }
+
+  async findByStatus(status: HydrationTaskStatus): Promise<HydrationTaskRecord[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM hydration_tasks WHERE status = $1 ORDER BY updated_at DESC`,
+        status,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, status }, "Failed to find hydration tasks by status");
+            reject(err);
+            return;
+          }
+          resolve((rows as HydrationTaskRecord[]) || []);
+        }
+      );
+    });
+  }
+
+  private async run(sql: string, params: unknown[], errorMessage: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, ...params, (err) => {
+        if (err) {
+          logger.error({ err, params }, errorMessage);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+}
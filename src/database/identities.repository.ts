@@ -0,0 +1,55 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export interface Identity {
+  did: string;
+  handle?: string | null;
+  handle_verified: boolean;
+  pds?: string | null;
+  resolved_at?: Date;
+}
+
+export class IdentitiesRepository {
+  constructor(private db: Database) {}
+
+  async upsert(identity: Identity): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        INSERT INTO identities (did, handle, handle_verified, pds, resolved_at)
+        VALUES ($1, $2, $3, $4, now())
+        ON CONFLICT (did) DO UPDATE SET
+          handle = EXCLUDED.handle,
+          handle_verified = EXCLUDED.handle_verified,
+          pds = EXCLUDED.pds,
+          resolved_at = EXCLUDED.resolved_at
+      `,
+        identity.did,
+        identity.handle ?? null,
+        identity.handle_verified,
+        identity.pds ?? null,
+        (err) => {
+          if (err) {
+            logger.error({ err, identity }, "Failed to upsert identity");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+
+  async findByDid(did: string): Promise<Identity | null> {
+    return new Promise((resolve, reject) => {
+      this.db.all(`SELECT * FROM identities WHERE did = $1`, did, (err, rows) => {
+        if (err) {
+          logger.error({ err, did }, "Failed to find identity by DID");
+          reject(err);
+          return;
+        }
+        resolve((rows as Identity[])?.[0] || null);
+      });
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { Database } from "duckdb";
 import { logger } from "../logger/index.js";
+import { HydrationTaskType } from "./hydration-tasks.repository.js";
 
 export interface Label {
   id?: number;
@@ -10,6 +11,46 @@ export interface Label {
   cts: string;
   exp?: string;
   src: string;
+  sig_status?: string | null;
+  subscription?: string;
+}
+
+export interface LabelQuery {
+  // Labels on any of these subject URIs
+  uris?: string[];
+  val?: string;
+  src?: string;
+  subscription?: string;
+  since?: string;
+  until?: string;
+  cursor?: number;
+  limit: number;
+}
+
+export interface UnhydratedSubject {
+  type: HydrationTaskType;
+  identifier: string;
+  first_seen: Date;
+}
+
+export const INSERT_LABEL_SQL = `
+  INSERT INTO labels (uri, cid, val, neg, cts, exp, src, sig_status, subscription)
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+  ON CONFLICT (uri, val, cts) DO NOTHING
+`;
+
+export function labelInsertParams(label: Label): unknown[] {
+  return [
+    label.uri,
+    label.cid || null,
+    label.val,
+    label.neg || false,
+    label.cts,
+    label.exp || null,
+    label.src,
+    label.sig_status || null,
+    label.subscription || null,
+  ];
 }
 
 export class LabelsRepository {
@@ -17,38 +58,22 @@ export class LabelsRepository {
 
   async insert(label: Label): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.db.prepare(
-        `
-        INSERT INTO labels (uri, cid, val, neg, cts, exp, src)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
-        ON CONFLICT (uri, val, cts) DO NOTHING
-      `,
-        (err, stmt) => {
+      this.db.prepare(INSERT_LABEL_SQL, (err, stmt) => {
+        if (err) {
+          logger.error({ err }, "Failed to prepare label insert statement");
+          reject(err);
+          return;
+        }
+
+        stmt.run(...labelInsertParams(label), (err: Error | null) => {
           if (err) {
-            logger.error({ err }, "Failed to prepare label insert statement");
+            logger.error({ err, label }, "Failed to insert label");
             reject(err);
             return;
           }
-
-          stmt.run(
-            label.uri,
-            label.cid || null,
-            label.val,
-            label.neg || false,
-            label.cts,
-            label.exp || null,
-            label.src,
-            (err) => {
-              if (err) {
-                logger.error({ err, label }, "Failed to insert label");
-                reject(err);
-                return;
-              }
-              resolve();
-            }
-          );
-        }
-      );
+          resolve();
+        });
+      });
     });
   }
 
@@ -81,4 +106,193 @@ export class LabelsRepository {
       );
     });
   }
+
+  /**
+   * Lists labels newest first. Pass the `id` of the last row as `cursor` to
+   * fetch the next page.
+   */
+  async list(query: LabelQuery): Promise<Label[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace("?", `$${params.length}`));
+    };
+
+    if (query.uris) {
+      const placeholders = query.uris.map((uri) => {
+        params.push(uri);
+        return `$${params.length}`;
+      });
+      conditions.push(`uri IN (${placeholders.join(", ")})`);
+    }
+    if (query.val) addCondition("val = ?", query.val);
+    if (query.src) addCondition("src = ?", query.src);
+    if (query.subscription) addCondition("subscription = ?", query.subscription);
+    if (query.since) addCondition("cts >= ?::TIMESTAMP", query.since);
+    if (query.until) addCondition("cts < ?::TIMESTAMP", query.until);
+    if (query.cursor !== undefined) addCondition("id < ?", query.cursor);
+
+    params.push(query.limit);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM labels ${where} ORDER BY id DESC LIMIT $${params.length}`,
+        ...params,
+        (err: Error | null, rows: unknown) => {
+          if (err) {
+            logger.error({ err, query }, "Failed to list labels");
+            reject(err);
+            return;
+          }
+          resolve((rows as Label[]) || []);
+        }
+      );
+    });
+  }
+
+  async getActiveLabels(uri: string, asOf: Date = new Date()): Promise<Label[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * FROM label_state
+        WHERE uri = $1 AND NOT neg AND (exp IS NULL OR exp > $2::TIMESTAMP)
+        ORDER BY cts DESC
+      `,
+        uri,
+        asOf.toISOString(),
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, uri }, "Failed to find active labels by URI");
+            reject(err);
+            return;
+          }
+          resolve((rows as Label[]) || []);
+        }
+      );
+    });
+  }
+
+  async findActiveByValue(val: string, asOf: Date = new Date()): Promise<Label[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * FROM label_state
+        WHERE val = $1 AND NOT neg AND (exp IS NULL OR exp > $2::TIMESTAMP)
+        ORDER BY cts DESC
+      `,
+        val,
+        asOf.toISOString(),
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, val }, "Failed to find active labels by value");
+            reject(err);
+            return;
+          }
+          resolve((rows as Label[]) || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Distinct label values applied to any of the given URIs, ignoring
+   * quarantined labels. A subject can be labeled under more than one URI,
+   * e.g. an account as `did:...` and `at://did:...`.
+   */
+  async findValuesForSubject(uris: string[]): Promise<string[]> {
+    if (uris.length === 0) return [];
+
+    const placeholders = uris.map((_, i) => `$${i + 1}`).join(", ");
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT DISTINCT val FROM labels
+        WHERE uri IN (${placeholders})
+          AND (sig_status IS NULL OR sig_status = 'valid')
+        ORDER BY val
+      `,
+        ...uris,
+        (err: Error | null, rows: unknown) => {
+          if (err) {
+            logger.error({ err, uris }, "Failed to find label values for subject");
+            reject(err);
+            return;
+          }
+          resolve(((rows as { val: string }[]) || []).map((row) => row.val));
+        }
+      );
+    });
+  }
+
+  /**
+   * Finds labeled records with no row in their collection's table (posts,
+   * lists, feed generators, starter packs) and labeled accounts with no
+   * `profiles` row, oldest label first. Posts stored only as context for
+   * another post count as unhydrated. Quarantined labels are ignored.
+   */
+  async findUnhydratedSubjects(since?: string): Promise<UnhydratedSubject[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        WITH eligible AS (
+          SELECT uri, cts FROM labels
+          WHERE ($1::TIMESTAMP IS NULL OR cts >= $1::TIMESTAMP)
+            AND (sig_status IS NULL OR sig_status = 'valid')
+        ),
+        records AS (
+          SELECT
+            uri,
+            cts,
+            regexp_extract(uri, '^at://([^/]+)/([^/]+)/[^/]+$', 1) AS did,
+            regexp_extract(uri, '^at://([^/]+)/([^/]+)/[^/]+$', 2) AS collection
+          FROM eligible
+          WHERE regexp_matches(uri, '^at://[^/]+/[^/]+/[^/]+$')
+        ),
+        subjects AS (
+          SELECT
+            CASE collection
+              WHEN 'app.bsky.feed.post' THEN 'post'
+              WHEN 'app.bsky.graph.list' THEN 'list'
+              WHEN 'app.bsky.feed.generator' THEN 'feedgen'
+              WHEN 'app.bsky.graph.starterpack' THEN 'starterpack'
+            END AS type,
+            uri AS identifier,
+            cts
+          FROM records
+          UNION ALL
+          SELECT 'profile' AS type, did AS identifier, cts FROM records
+          WHERE collection = 'app.bsky.actor.profile'
+          UNION ALL
+          SELECT 'profile' AS type, uri AS identifier, cts FROM eligible
+          WHERE uri LIKE 'did:%'
+          UNION ALL
+          SELECT 'profile' AS type, substr(uri, 6) AS identifier, cts FROM eligible
+          WHERE regexp_matches(uri, '^at://[^/]+$')
+        )
+        SELECT type, identifier, MIN(cts) AS first_seen
+        FROM subjects s
+        WHERE (type = 'post' AND NOT EXISTS (SELECT 1 FROM posts p WHERE p.uri = s.identifier AND NOT p.is_context))
+           OR (type = 'list' AND NOT EXISTS (SELECT 1 FROM lists l WHERE l.uri = s.identifier))
+           OR (type = 'feedgen' AND NOT EXISTS (SELECT 1 FROM feed_generators f WHERE f.uri = s.identifier))
+           OR (type = 'starterpack' AND NOT EXISTS (SELECT 1 FROM starter_packs p WHERE p.uri = s.identifier))
+           OR (type = 'profile' AND NOT EXISTS (SELECT 1 FROM profiles p WHERE p.did = s.identifier))
+        GROUP BY type, identifier
+        ORDER BY first_seen
+      `,
+        since ?? null,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, since }, "Failed to find unhydrated subjects");
+            reject(err);
+            return;
+          }
+          resolve((rows as UnhydratedSubject[]) || []);
+        }
+      );
+    });
+  }
 }
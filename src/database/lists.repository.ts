@@ -0,0 +1,70 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export interface List {
+  uri: string;
+  did: string;
+  name?: string;
+  purpose?: string;
+  description?: string;
+  avatar_cid?: string;
+  created_at?: string;
+}
+
+export class ListsRepository {
+  constructor(private db: Database) {}
+
+  async insert(list: List): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.prepare(
+        `
+        INSERT INTO lists (uri, did, name, purpose, description, avatar_cid, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (uri) DO UPDATE SET
+          name = EXCLUDED.name,
+          purpose = EXCLUDED.purpose,
+          description = EXCLUDED.description,
+          avatar_cid = EXCLUDED.avatar_cid
+      `,
+        (err, stmt) => {
+          if (err) {
+            logger.error({ err }, "Failed to prepare list insert statement");
+            reject(err);
+            return;
+          }
+
+          stmt.run(
+            list.uri,
+            list.did,
+            list.name || null,
+            list.purpose || null,
+            list.description || null,
+            list.avatar_cid || null,
+            list.created_at || null,
+            (err) => {
+              if (err) {
+                logger.error({ err, list }, "Failed to insert list");
+                reject(err);
+                return;
+              }
+              resolve();
+            }
+          );
+        }
+      );
+    });
+  }
+
+  async findByUri(uri: string): Promise<List | null> {
+    return new Promise((resolve, reject) => {
+      this.db.all(`SELECT * FROM lists WHERE uri = $1`, uri, (err, rows) => {
+        if (err) {
+          logger.error({ err, uri }, "Failed to find list by URI");
+          reject(err);
+          return;
+        }
+        resolve((rows as List[])?.[0] || null);
+      });
+    });
+  }
+}
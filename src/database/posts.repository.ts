@@ -11,6 +11,11 @@ export interface Post {
   tags?: string[];
   created_at: string;
   is_reply?: boolean;
+  reply_parent_uri?: string;
+  reply_root_uri?: string;
+  quote_uri?: string;
+  // Hydrated because a labeled post replied to or quoted it
+  is_context?: boolean;
 }
 
 export class PostsRepository {
@@ -20,14 +25,18 @@ export class PostsRepository {
     return new Promise((resolve, reject) => {
       this.db.prepare(
         `
-        INSERT INTO posts (uri, did, text, facets, embeds, langs, tags, created_at, is_reply)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        INSERT INTO posts (uri, did, text, facets, embeds, langs, tags, created_at, is_reply, reply_parent_uri, reply_root_uri, quote_uri, is_context)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
         ON CONFLICT (uri) DO UPDATE SET
           text = EXCLUDED.text,
           facets = EXCLUDED.facets,
           embeds = EXCLUDED.embeds,
           langs = EXCLUDED.langs,
-          tags = EXCLUDED.tags
+          tags = EXCLUDED.tags,
+          reply_parent_uri = EXCLUDED.reply_parent_uri,
+          reply_root_uri = EXCLUDED.reply_root_uri,
+          quote_uri = EXCLUDED.quote_uri,
+          is_context = posts.is_context AND EXCLUDED.is_context
       `,
         (err, stmt) => {
           if (err) {
@@ -46,6 +55,10 @@ export class PostsRepository {
             post.tags ? JSON.stringify(post.tags) : null,
             post.created_at,
             post.is_reply || false,
+            post.reply_parent_uri || null,
+            post.reply_root_uri || null,
+            post.quote_uri || null,
+            post.is_context || false,
             (err) => {
               if (err) {
                 logger.error({ err, post }, "Failed to insert post");
@@ -1,5 +1,6 @@
 import { Database } from "duckdb";
 import { logger } from "../logger/index.js";
+import { ExtendedHashes, StoredBlobRef } from "./blobs.repository.js";
 
 export interface ProfileBlob {
   did: string;
@@ -7,11 +8,18 @@ export interface ProfileBlob {
   blob_cid: string;
   sha256: string;
   phash?: string;
+  dct_phash?: string;
+  pdq?: string;
+  pdq_quality?: number;
   storage_path?: string;
   mimetype?: string;
   captured_at?: Date;
 }
 
+export interface SimilarProfileBlob extends ProfileBlob {
+  distance: number;
+}
+
 export class ProfileBlobsRepository {
   constructor(private db: Database) {}
 
@@ -19,8 +27,8 @@ export class ProfileBlobsRepository {
     return new Promise((resolve, reject) => {
       this.db.prepare(
         `
-        INSERT INTO profile_blobs (did, blob_type, blob_cid, sha256, phash, storage_path, mimetype, captured_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, CURRENT_TIMESTAMP))
+        INSERT INTO profile_blobs (did, blob_type, blob_cid, sha256, phash, phash_bits, storage_path, mimetype, captured_at, dct_phash, pdq, pdq_quality)
+        VALUES ($1, $2, $3, $4, $5, TRY_CAST('0x' || $5 AS UBIGINT), $6, $7, COALESCE($8, CURRENT_TIMESTAMP), $9, $10, $11)
       `,
         (err, stmt) => {
           if (err) {
@@ -38,6 +46,9 @@ export class ProfileBlobsRepository {
             blob.storage_path || null,
             blob.mimetype || null,
             blob.captured_at || null,
+            blob.dct_phash || null,
+            blob.pdq || null,
+            blob.pdq_quality ?? null,
             (err) => {
               if (err) {
                 logger.error({ err, blob }, "Failed to insert profile blob");
@@ -104,11 +115,30 @@ export class ProfileBlobsRepository {
     });
   }
 
-  async findByPhash(phash: string): Promise<ProfileBlob[]> {
+  async findAllBySha256(sha256: string, limit = 100): Promise<ProfileBlob[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM profile_blobs WHERE sha256 = $1 ORDER BY captured_at DESC, did LIMIT $2`,
+        sha256,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, sha256 }, "Failed to find profile blobs by SHA256");
+            reject(err);
+            return;
+          }
+          resolve((rows as ProfileBlob[]) || []);
+        }
+      );
+    });
+  }
+
+  async findByPhash(phash: string, limit = 100): Promise<ProfileBlob[]> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        `SELECT * FROM profile_blobs WHERE phash = $1`,
+        `SELECT * FROM profile_blobs WHERE phash = $1 ORDER BY captured_at DESC, did LIMIT $2`,
         phash,
+        limit,
         (err, rows: ProfileBlob[]) => {
           if (err) {
             logger.error({ err, phash }, "Failed to find profile blobs by pHash");
@@ -120,4 +150,99 @@ export class ProfileBlobsRepository {
       );
     });
   }
+
+  /**
+   * Finds avatars and banners whose pHash is within maxDistance bits of the
+   * given hash, closest first.
+   */
+  async findSimilarByPhash(
+    phash: string,
+    maxDistance: number,
+    limit = 100
+  ): Promise<SimilarProfileBlob[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * EXCLUDE (phash_bits) FROM (
+          SELECT *, bit_count(xor(phash_bits, TRY_CAST('0x' || $1 AS UBIGINT)))::INTEGER AS distance
+          FROM profile_blobs
+          WHERE phash_bits IS NOT NULL
+        )
+        WHERE distance <= $2
+        ORDER BY distance, captured_at DESC
+        LIMIT $3
+      `,
+        phash,
+        maxDistance,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, phash, maxDistance }, "Failed to find similar profile blobs by pHash");
+            reject(err);
+            return;
+          }
+          resolve((rows as SimilarProfileBlob[]) || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Lists stored image blobs still missing the DCT pHash or PDQ columns,
+   * one row per CID, ordered by CID for paging.
+   */
+  async findMissingExtendedHashes(
+    afterCid: string | null,
+    limit: number
+  ): Promise<StoredBlobRef[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT blob_cid, ANY_VALUE(mimetype) AS mimetype
+        FROM profile_blobs
+        WHERE storage_path IS NOT NULL
+          AND (dct_phash IS NULL OR pdq IS NULL)
+          AND (mimetype IS NULL OR mimetype LIKE 'image/%')
+          AND ($1::TEXT IS NULL OR blob_cid > $1::TEXT)
+        GROUP BY blob_cid
+        ORDER BY blob_cid
+        LIMIT $2
+      `,
+        afterCid,
+        limit,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err }, "Failed to find profile blobs missing extended hashes");
+            reject(err);
+            return;
+          }
+          resolve((rows as StoredBlobRef[]) || []);
+        }
+      );
+    });
+  }
+
+  async updateExtendedHashes(cid: string, hashes: ExtendedHashes): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `
+        UPDATE profile_blobs
+        SET dct_phash = $2, pdq = $3, pdq_quality = $4
+        WHERE blob_cid = $1
+      `,
+        cid,
+        hashes.dct_phash || null,
+        hashes.pdq || null,
+        hashes.pdq_quality ?? null,
+        (err) => {
+          if (err) {
+            logger.error({ err, cid }, "Failed to update profile blobs extended hashes");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
 }
@@ -0,0 +1,94 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+import { Profile } from "./profiles.repository.js";
+
+export interface ProfileSnapshot extends Profile {
+  captured_at?: Date;
+}
+
+export class ProfileSnapshotsRepository {
+  constructor(private db: Database) {}
+
+  async insert(snapshot: ProfileSnapshot): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.prepare(
+        `
+        INSERT INTO profile_snapshots (did, handle, display_name, description, avatar_cid, banner_cid, captured_at)
+        VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, CURRENT_TIMESTAMP))
+      `,
+        (err, stmt) => {
+          if (err) {
+            logger.error({ err }, "Failed to prepare profile snapshot insert statement");
+            reject(err);
+            return;
+          }
+
+          stmt.run(
+            snapshot.did,
+            snapshot.handle || null,
+            snapshot.display_name || null,
+            snapshot.description || null,
+            snapshot.avatar_cid || null,
+            snapshot.banner_cid || null,
+            snapshot.captured_at || null,
+            (err) => {
+              if (err) {
+                logger.error({ err, snapshot }, "Failed to insert profile snapshot");
+                reject(err);
+                return;
+              }
+              resolve();
+            }
+          );
+        }
+      );
+    });
+  }
+
+  async findByDid(did: string): Promise<ProfileSnapshot[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM profile_snapshots WHERE did = $1 ORDER BY captured_at DESC`,
+        did,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, did }, "Failed to find profile snapshots by DID");
+            reject(err);
+            return;
+          }
+          resolve((rows as ProfileSnapshot[]) || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * The profile as it was at a point in time, typically a label's cts: the
+   * latest snapshot captured at or before it, or null when the account was
+   * first captured later.
+   */
+  async findAsOf(did: string, at: string | Date): Promise<ProfileSnapshot | null> {
+    const timestamp = at instanceof Date ? at.toISOString() : at;
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `
+        SELECT * FROM profile_snapshots
+        WHERE did = $1 AND captured_at <= $2::TIMESTAMP
+        ORDER BY captured_at DESC
+        LIMIT 1
+      `,
+        did,
+        timestamp,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, did, at: timestamp }, "Failed to find profile snapshot");
+            reject(err);
+            return;
+          }
+          resolve((rows as ProfileSnapshot[])?.[0] || null);
+        }
+      );
+    });
+  }
+}
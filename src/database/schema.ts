@@ -1,6 +1,26 @@
 import { getDatabase } from "./connection.js";
 import { logger } from "../logger/index.js";
 
+// Task types a hydration_tasks row may hold; widening this list migrates
+// the table's CHECK constraint on startup
+const HYDRATION_TASK_TYPES = ["post", "profile", "list", "feedgen", "starterpack"];
+
+function hydrationTasksTableSql(table: string): string {
+  const types = HYDRATION_TASK_TYPES.map((type) => `'${type}'`).join(", ");
+  return `
+CREATE TABLE IF NOT EXISTS ${table} (
+  type TEXT NOT NULL CHECK (type IN (${types})),
+  identifier TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_flight', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (type, identifier)
+);`;
+}
+
 const SCHEMA_SQL = `
 -- Labels table: stores raw label event data
 CREATE SEQUENCE IF NOT EXISTS labels_id_seq;
@@ -13,6 +33,8 @@ CREATE TABLE IF NOT EXISTS labels (
   cts TIMESTAMP NOT NULL,
   exp TIMESTAMP,
   src TEXT NOT NULL,
+  sig_status TEXT,
+  subscription TEXT,
   UNIQUE(uri, val, cts)
 );
 
@@ -26,7 +48,11 @@ CREATE TABLE IF NOT EXISTS posts (
   langs JSON,
   tags JSON,
   created_at TIMESTAMP NOT NULL,
-  is_reply BOOLEAN DEFAULT FALSE
+  is_reply BOOLEAN DEFAULT FALSE,
+  reply_parent_uri TEXT,
+  reply_root_uri TEXT,
+  quote_uri TEXT,
+  is_context BOOLEAN DEFAULT FALSE
 );
 
 -- Profiles table: stores hydrated data for labeled user accounts
@@ -45,6 +71,10 @@ CREATE TABLE IF NOT EXISTS blobs (
   blob_cid TEXT NOT NULL,
   sha256 TEXT NOT NULL,
   phash TEXT,
+  phash_bits UBIGINT,
+  dct_phash TEXT,
+  pdq TEXT,
+  pdq_quality INTEGER,
   storage_path TEXT,
   mimetype TEXT,
   PRIMARY KEY (post_uri, blob_cid),
@@ -58,6 +88,10 @@ CREATE TABLE IF NOT EXISTS profile_blobs (
   blob_cid TEXT NOT NULL,
   sha256 TEXT NOT NULL,
   phash TEXT,
+  phash_bits UBIGINT,
+  dct_phash TEXT,
+  pdq TEXT,
+  pdq_quality INTEGER,
   storage_path TEXT,
   mimetype TEXT,
   captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -65,6 +99,130 @@ CREATE TABLE IF NOT EXISTS profile_blobs (
   FOREIGN KEY (did) REFERENCES profiles(did)
 );
 
+-- Profile snapshots table: full profile state each time an account is hydrated
+CREATE TABLE IF NOT EXISTS profile_snapshots (
+  did TEXT NOT NULL,
+  handle TEXT,
+  display_name TEXT,
+  description TEXT,
+  avatar_cid TEXT,
+  banner_cid TEXT,
+  captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (did, captured_at)
+);
+
+-- Subscription state table: firehose cursor per labeler subscription
+CREATE TABLE IF NOT EXISTS subscription_state (
+  subscription TEXT PRIMARY KEY,
+  cursor BIGINT NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Firehose events table: #info and error frames received from labelers
+CREATE SEQUENCE IF NOT EXISTS firehose_events_id_seq;
+CREATE TABLE IF NOT EXISTS firehose_events (
+  id INTEGER PRIMARY KEY DEFAULT nextval('firehose_events_id_seq'),
+  subscription TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('info', 'error')),
+  name TEXT NOT NULL,
+  message TEXT,
+  cursor BIGINT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Firehose gaps table: skipped sequence numbers per subscription
+CREATE SEQUENCE IF NOT EXISTS firehose_gaps_id_seq;
+CREATE TABLE IF NOT EXISTS firehose_gaps (
+  id INTEGER PRIMARY KEY DEFAULT nextval('firehose_gaps_id_seq'),
+  subscription TEXT NOT NULL,
+  from_seq BIGINT NOT NULL,
+  to_seq BIGINT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'partial')),
+  detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  filled_at TIMESTAMP
+);
+
+-- Blob frames table: perceptual hashes of keyframes sampled from video blobs
+CREATE TABLE IF NOT EXISTS blob_frames (
+  blob_cid TEXT NOT NULL,
+  frame_index INTEGER NOT NULL,
+  pts_seconds DOUBLE,
+  phash TEXT,
+  phash_bits UBIGINT,
+  dct_phash TEXT,
+  pdq TEXT,
+  pdq_quality INTEGER,
+  PRIMARY KEY (blob_cid, frame_index)
+);
+
+-- Lists table: hydrated app.bsky.graph.list records
+CREATE TABLE IF NOT EXISTS lists (
+  uri TEXT PRIMARY KEY,
+  did TEXT NOT NULL,
+  name TEXT,
+  purpose TEXT,
+  description TEXT,
+  avatar_cid TEXT,
+  created_at TIMESTAMP
+);
+
+-- Feed generators table: hydrated app.bsky.feed.generator records
+CREATE TABLE IF NOT EXISTS feed_generators (
+  uri TEXT PRIMARY KEY,
+  did TEXT NOT NULL,
+  service_did TEXT,
+  display_name TEXT,
+  description TEXT,
+  avatar_cid TEXT,
+  created_at TIMESTAMP
+);
+
+-- Starter packs table: hydrated app.bsky.graph.starterpack records
+CREATE TABLE IF NOT EXISTS starter_packs (
+  uri TEXT PRIMARY KEY,
+  did TEXT NOT NULL,
+  name TEXT,
+  description TEXT,
+  list_uri TEXT,
+  feeds JSON,
+  created_at TIMESTAMP
+);
+
+-- Hydration outcomes table: result of every attempt to fetch a labeled subject
+CREATE SEQUENCE IF NOT EXISTS hydration_outcomes_id_seq;
+CREATE TABLE IF NOT EXISTS hydration_outcomes (
+  id INTEGER PRIMARY KEY DEFAULT nextval('hydration_outcomes_id_seq'),
+  type TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'not_found', 'takendown', 'deactivated', 'error')),
+  http_status INTEGER,
+  error TEXT,
+  message TEXT,
+  attempted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Identities table: cached DID resolution and handle verification per account
+CREATE TABLE IF NOT EXISTS identities (
+  did TEXT PRIMARY KEY,
+  handle TEXT,
+  handle_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  pds TEXT,
+  resolved_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Handle history table: every handle an account has been seen claiming
+CREATE TABLE IF NOT EXISTS handle_history (
+  did TEXT NOT NULL,
+  handle TEXT NOT NULL,
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  first_seen TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (did, handle)
+);
+
+-- Hydration tasks table: durable work queue for subject hydration
+${hydrationTasksTableSql("hydration_tasks")}
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_labels_uri ON labels(uri);
 CREATE INDEX IF NOT EXISTS idx_labels_val ON labels(val);
@@ -75,8 +233,67 @@ CREATE INDEX IF NOT EXISTS idx_blobs_sha256 ON blobs(sha256);
 CREATE INDEX IF NOT EXISTS idx_blobs_phash ON blobs(phash);
 CREATE INDEX IF NOT EXISTS idx_profile_blobs_sha256 ON profile_blobs(sha256);
 CREATE INDEX IF NOT EXISTS idx_profile_blobs_phash ON profile_blobs(phash);
+CREATE INDEX IF NOT EXISTS idx_blob_frames_phash ON blob_frames(phash);
+CREATE INDEX IF NOT EXISTS idx_hydration_outcomes_subject ON hydration_outcomes(subject);
+CREATE INDEX IF NOT EXISTS idx_identities_handle ON identities(handle);
+CREATE INDEX IF NOT EXISTS idx_handle_history_handle ON handle_history(handle);
+`;
+
+// Latest verified event per (uri, val, src). A label is in effect when its
+// latest event is not a negation and has not expired.
+export const LABEL_STATE_VIEW_SQL = `
+CREATE OR REPLACE VIEW label_state AS
+SELECT uri, val, src, cid, neg, cts, exp
+FROM (
+  SELECT
+    *,
+    ROW_NUMBER() OVER (PARTITION BY uri, val, src ORDER BY cts DESC, id DESC) AS rn
+  FROM labels
+  WHERE sig_status IS NULL OR sig_status = 'valid'
+)
+WHERE rn = 1;
 `;
 
+// phash_bits holds the pHash as an integer so similarity search can compare
+// hashes with xor/bit_count instead of parsing hex on every row.
+async function backfillPhashBits(): Promise<void> {
+  const db = getDatabase();
+
+  return new Promise((resolve, reject) => {
+    db.exec(
+      `
+      UPDATE blobs SET phash_bits = TRY_CAST('0x' || phash AS UBIGINT)
+      WHERE phash IS NOT NULL AND phash_bits IS NULL;
+      UPDATE profile_blobs SET phash_bits = TRY_CAST('0x' || phash AS UBIGINT)
+      WHERE phash IS NOT NULL AND phash_bits IS NULL;
+    `,
+      (err) => {
+        if (err) {
+          logger.error({ err }, "Failed to backfill pHash bits");
+          reject(err);
+          return;
+        }
+        resolve();
+      }
+    );
+  });
+}
+
+async function createViews(): Promise<void> {
+  const db = getDatabase();
+
+  return new Promise((resolve, reject) => {
+    db.exec(LABEL_STATE_VIEW_SQL, (err) => {
+      if (err) {
+        logger.error({ err }, "Failed to create views");
+        reject(err);
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
 async function migrateProfilesTable(): Promise<void> {
   const db = getDatabase();
 
@@ -123,6 +340,113 @@ async function migrateProfilesTable(): Promise<void> {
   });
 }
 
+// DuckDB cannot alter a CHECK constraint, so a hydration_tasks table that
+// predates a task type is rebuilt with the current one.
+async function migrateHydrationTaskTypes(): Promise<void> {
+  const db = getDatabase();
+
+  return new Promise((resolve, reject) => {
+    db.all(
+      `
+      SELECT expression FROM duckdb_constraints()
+      WHERE table_name = 'hydration_tasks' AND constraint_type = 'CHECK'
+    `,
+      (err, rows: any[]) => {
+        if (err) {
+          logger.error({ err }, "Failed to check hydration_tasks constraints");
+          reject(err);
+          return;
+        }
+
+        const typeCheck = rows
+          .map((row) => String(row.expression))
+          .find((expression) => expression.includes("'post'"));
+
+        if (
+          !typeCheck ||
+          HYDRATION_TASK_TYPES.every((type) => typeCheck.includes(`'${type}'`))
+        ) {
+          resolve();
+          return;
+        }
+
+        logger.info(
+          { types: HYDRATION_TASK_TYPES },
+          "Migrating hydration_tasks table to accept new task types"
+        );
+
+        db.exec(
+          `
+          BEGIN TRANSACTION;
+          ${hydrationTasksTableSql("hydration_tasks_migrated")}
+          INSERT INTO hydration_tasks_migrated SELECT * FROM hydration_tasks;
+          DROP TABLE hydration_tasks;
+          ALTER TABLE hydration_tasks_migrated RENAME TO hydration_tasks;
+          COMMIT;
+        `,
+          (err) => {
+            if (err) {
+              logger.error({ err }, "Failed to migrate hydration_tasks table");
+              db.exec("ROLLBACK", () => reject(err));
+              return;
+            }
+            resolve();
+          }
+        );
+      }
+    );
+  });
+}
+
+async function ensureColumns(
+  table: string,
+  columns: Record<string, string>
+): Promise<void> {
+  const db = getDatabase();
+
+  return new Promise((resolve, reject) => {
+    db.all(
+      "SELECT column_name FROM information_schema.columns WHERE table_name = $1",
+      table,
+      (err, rows: any[]) => {
+        if (err) {
+          logger.error({ err, table }, "Failed to check table columns");
+          reject(err);
+          return;
+        }
+
+        const existing = new Set(rows.map((row) => row.column_name));
+        const missing = Object.entries(columns).filter(
+          ([name]) => !existing.has(name)
+        );
+
+        if (missing.length === 0) {
+          resolve();
+          return;
+        }
+
+        logger.info(
+          { table, columns: missing.map(([name]) => name) },
+          "Migrating table to add missing columns"
+        );
+
+        const migrations = missing.map(
+          ([name, type]) => `ALTER TABLE ${table} ADD COLUMN ${name} ${type}`
+        );
+
+        db.exec(migrations.join("; "), (err) => {
+          if (err) {
+            logger.error({ err, table }, "Failed to migrate table");
+            reject(err);
+            return;
+          }
+          resolve();
+        });
+      }
+    );
+  });
+}
+
 export async function initializeSchema(): Promise<void> {
   const db = getDatabase();
 
@@ -137,6 +461,24 @@ export async function initializeSchema(): Promise<void> {
 
       try {
         await migrateProfilesTable();
+        await migrateHydrationTaskTypes();
+        await ensureColumns("labels", { sig_status: "TEXT", subscription: "TEXT" });
+        await ensureColumns("posts", {
+          reply_parent_uri: "TEXT",
+          reply_root_uri: "TEXT",
+          quote_uri: "TEXT",
+          is_context: "BOOLEAN DEFAULT FALSE",
+        });
+        const blobHashColumns = {
+          phash_bits: "UBIGINT",
+          dct_phash: "TEXT",
+          pdq: "TEXT",
+          pdq_quality: "INTEGER",
+        };
+        await ensureColumns("blobs", blobHashColumns);
+        await ensureColumns("profile_blobs", blobHashColumns);
+        await backfillPhashBits();
+        await createViews();
         resolve();
       } catch (migrationErr) {
         reject(migrationErr);
@@ -0,0 +1,74 @@
+import { Database } from "duckdb";
+import { logger } from "../logger/index.js";
+
+export interface StarterPack {
+  uri: string;
+  did: string;
+  name?: string;
+  description?: string;
+  list_uri?: string;
+  feeds?: string[];
+  created_at?: string;
+}
+
+export class StarterPacksRepository {
+  constructor(private db: Database) {}
+
+  async insert(pack: StarterPack): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.prepare(
+        `
+        INSERT INTO starter_packs (uri, did, name, description, list_uri, feeds, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (uri) DO UPDATE SET
+          name = EXCLUDED.name,
+          description = EXCLUDED.description,
+          list_uri = EXCLUDED.list_uri,
+          feeds = EXCLUDED.feeds
+      `,
+        (err, stmt) => {
+          if (err) {
+            logger.error({ err }, "Failed to prepare starter pack insert statement");
+            reject(err);
+            return;
+          }
+
+          stmt.run(
+            pack.uri,
+            pack.did,
+            pack.name || null,
+            pack.description || null,
+            pack.list_uri || null,
+            pack.feeds ? JSON.stringify(pack.feeds) : null,
+            pack.created_at || null,
+            (err) => {
+              if (err) {
+                logger.error({ err, pack }, "Failed to insert starter pack");
+                reject(err);
+                return;
+              }
+              resolve();
+            }
+          );
+        }
+      );
+    });
+  }
+
+  async findByUri(uri: string): Promise<StarterPack | null> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM starter_packs WHERE uri = $1`,
+        uri,
+        (err, rows) => {
+          if (err) {
+            logger.error({ err, uri }, "Failed to find starter pack by URI");
+            reject(err);
+            return;
+          }
+          resolve((rows as StarterPack[])?.[0] || null);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { Connection, Database } from "duckdb";
+import { logger } from "../logger/index.js";
+import { INSERT_LABEL_SQL, Label, labelInsertParams } from "./labels.repository.js";
+
+/**
+ * Stores each labeler subscription's firehose cursor. The cursor only moves
+ * together with the labels it covers, in a single transaction, so a stored
+ * cursor never points past labels that were not written.
+ */
+export class SubscriptionStateRepository {
+  private conn: Connection | null = null;
+
+  constructor(private db: Database) {}
+
+  async getCursor(subscription: string): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT cursor FROM subscription_state WHERE subscription = $1`,
+        subscription,
+        (err, rows: any[]) => {
+          if (err) {
+            logger.error({ err, subscription }, "Failed to load subscription cursor");
+            reject(err);
+            return;
+          }
+          resolve(rows && rows.length > 0 ? Number(rows[0].cursor) : null);
+        }
+      );
+    });
+  }
+
+  async clearCursor(subscription: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `DELETE FROM subscription_state WHERE subscription = $1`,
+        subscription,
+        (err) => {
+          if (err) {
+            logger.error({ err, subscription }, "Failed to clear subscription cursor");
+            reject(err);
+            return;
+          }
+          resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * Writes labels and moves the cursor in one transaction. A null cursor
+   * stores the labels only, as replays do.
+   */
+  async commitBatch(
+    subscription: string,
+    cursor: number | null,
+    labels: Label[]
+  ): Promise<void> {
+    await this.run("BEGIN TRANSACTION");
+
+    try {
+      for (const label of labels) {
+        await this.run(INSERT_LABEL_SQL, labelInsertParams(label));
+      }
+
+      if (cursor !== null) {
+        await this.run(
+          `
+          INSERT INTO subscription_state (subscription, cursor, updated_at)
+          VALUES ($1, $2, now())
+          ON CONFLICT (subscription) DO UPDATE SET
+            cursor = EXCLUDED.cursor,
+            updated_at = EXCLUDED.updated_at
+        `,
+          [subscription, cursor]
+        );
+      }
+
+      await this.run("COMMIT");
+    } catch (err) {
+      logger.error(
+        { err, subscription, cursor, labels: labels.length },
+        "Failed to commit label batch"
+      );
+      await this.run("ROLLBACK").catch(() => {});
+      throw err;
+    }
+  }
+
+  // Batches run on their own connection so statements issued elsewhere on
+  // the shared connection never land inside an open transaction.
+  private run(sql: string, params: unknown[] = []): Promise<void> {
+    this.conn ??= this.db.connect();
+    const conn = this.conn;
+
+    return new Promise((resolve, reject) => {
+      conn.run(sql, ...params, (err: Error | null) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+}
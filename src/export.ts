@@ -0,0 +1,136 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseArgs } from "util";
+import { logger } from "./logger/index.js";
+import {
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "./database/connection.js";
+import { initializeSchema } from "./database/schema.js";
+import {
+  EXPORT_SCHEMA_VERSION,
+  ExportFilters,
+  ExportFormat,
+  ExportRepository,
+} from "./database/export.repository.js";
+import { createBlobStorage } from "./blobs/storage/index.js";
+
+interface ExportOptions {
+  out: string;
+  format: ExportFormat;
+  filters: ExportFilters;
+  copyBlobs: boolean;
+}
+
+function parseOptions(): ExportOptions {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      out: { type: "string" },
+      format: { type: "string", default: "parquet" },
+      val: { type: "string", multiple: true },
+      since: { type: "string" },
+      until: { type: "string" },
+      effective: { type: "boolean", default: false },
+      "copy-blobs": { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.out) {
+    throw new Error("--out <directory> is required");
+  }
+
+  if (values.format !== "parquet" && values.format !== "jsonl") {
+    throw new Error(`Invalid --format: ${values.format} (expected parquet or jsonl)`);
+  }
+
+  for (const flag of ["since", "until"] as const) {
+    const value = values[flag];
+    if (value && isNaN(Date.parse(value))) {
+      throw new Error(`Invalid --${flag} timestamp: ${value}`);
+    }
+  }
+
+  return {
+    out: values.out,
+    format: values.format,
+    filters: {
+      vals: values.val?.flatMap((v) => v.split(",").map((s) => s.trim())).filter(Boolean),
+      since: values.since,
+      until: values.until,
+      effectiveOnly: values.effective ?? false,
+    },
+    copyBlobs: values["copy-blobs"] ?? false,
+  };
+}
+
+async function copyBlobs(
+  exportRepo: ExportRepository,
+  outDir: string
+): Promise<{ copied: number; missing: number }> {
+  const storage = createBlobStorage();
+  const blobDir = path.join(outDir, "blobs");
+  await fs.mkdir(blobDir, { recursive: true });
+
+  const result = { copied: 0, missing: 0 };
+  for (const cid of await exportRepo.blobCids()) {
+    const data = await storage.retrieve(cid);
+    if (!data) {
+      result.missing++;
+      continue;
+    }
+    await fs.writeFile(path.join(blobDir, cid), data);
+    result.copied++;
+  }
+
+  return result;
+}
+
+async function main() {
+  try {
+    const options = parseOptions();
+
+    logger.info(options, "Starting export...");
+
+    await initializeDatabase();
+    await initializeSchema();
+
+    const exportRepo = new ExportRepository(getDatabase());
+    await fs.mkdir(options.out, { recursive: true });
+
+    await exportRepo.build(options.filters);
+
+    const dataFile = options.format === "parquet" ? "labels.parquet" : "labels.jsonl";
+    await exportRepo.write(path.resolve(options.out, dataFile), options.format);
+
+    const counts = await exportRepo.counts();
+    const blobs = options.copyBlobs
+      ? await copyBlobs(exportRepo, options.out)
+      : undefined;
+
+    const manifest = {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      format: options.format,
+      dataFile,
+      filters: options.filters,
+      counts,
+      blobs,
+    };
+    await fs.writeFile(
+      path.join(options.out, "manifest.json"),
+      JSON.stringify(manifest, null, 2) + "\n"
+    );
+
+    logger.info({ out: options.out, ...counts, blobs }, "Export complete");
+
+    await closeDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error({ error }, "Export failed");
+    process.exit(1);
+  }
+}
+
+main();
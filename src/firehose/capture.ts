@@ -0,0 +1,102 @@
+import { createWriteStream, mkdirSync, WriteStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+// Capture file layout: MAGIC, a uint32 length and a JSON header, then one
+// record per frame: uint64 receive time (ms), uint32 length, raw frame.
+const MAGIC = Buffer.from("SKYWCAP1");
+const RECORD_PREFIX_SIZE = 12;
+
+export interface CaptureHeader {
+  url: string;
+  startedAt: string;
+}
+
+export interface CapturedFrame {
+  timestamp: number;
+  data: Buffer;
+}
+
+export class CaptureRecorder {
+  private stream: WriteStream;
+
+  constructor(file: string, header: CaptureHeader) {
+    mkdirSync(path.dirname(file), { recursive: true });
+    this.stream = createWriteStream(file, { flags: "wx" });
+
+    const json = Buffer.from(JSON.stringify(header));
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(json.length);
+    this.stream.write(Buffer.concat([MAGIC, length, json]));
+  }
+
+  append(data: Buffer, timestamp = Date.now()): void {
+    const prefix = Buffer.alloc(RECORD_PREFIX_SIZE);
+    prefix.writeBigUInt64BE(BigInt(timestamp), 0);
+    prefix.writeUInt32BE(data.length, 8);
+    this.stream.write(Buffer.concat([prefix, data]));
+  }
+
+  async close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.end((err?: Error | null) => (err ? reject(err) : resolve()));
+    });
+  }
+}
+
+export interface CaptureReader {
+  header: CaptureHeader;
+  frames(): AsyncGenerator<CapturedFrame>;
+}
+
+export async function openCapture(file: string): Promise<CaptureReader> {
+  const handle = await fs.open(file, "r");
+
+  const read = async (position: number, length: number): Promise<Buffer | null> => {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return bytesRead === length ? buffer : null;
+  };
+
+  try {
+    const preamble = await read(0, MAGIC.length + 4);
+    if (!preamble || !preamble.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new Error(`Not a firehose capture file: ${file}`);
+    }
+
+    const headerLength = preamble.readUInt32BE(MAGIC.length);
+    const headerJson = await read(preamble.length, headerLength);
+    if (!headerJson) {
+      throw new Error(`Truncated capture header: ${file}`);
+    }
+
+    const header = JSON.parse(headerJson.toString()) as CaptureHeader;
+    const firstRecord = preamble.length + headerLength;
+
+    return {
+      header,
+      async *frames() {
+        let position = firstRecord;
+        try {
+          while (true) {
+            const prefix = await read(position, RECORD_PREFIX_SIZE);
+            if (!prefix) return;
+
+            const length = prefix.readUInt32BE(8);
+            const data = await read(position + RECORD_PREFIX_SIZE, length);
+            // A partially written last record ends the capture
+            if (!data) return;
+
+            yield { timestamp: Number(prefix.readBigUInt64BE(0)), data };
+            position += RECORD_PREFIX_SIZE + length;
+          }
+        } finally {
+          await handle.close();
+        }
+      },
+    };
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+}
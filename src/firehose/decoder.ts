@@ -21,13 +21,53 @@ export interface FirehoseMessage {
   [key: string]: any;
 }
 
-export function decodeFirehoseMessage(data: Buffer): FirehoseMessage | null {
+export interface FrameHeader {
+  op: number;
+  t?: string;
+}
+
+export type FirehoseFrame =
+  | { kind: "labels"; seq: number; labels: LabelEvent[] }
+  | { kind: "info"; name: string; message?: string }
+  | { kind: "error"; error: string; message?: string }
+  | { kind: "unknown"; header: FrameHeader };
+
+/**
+ * Decodes an event stream frame: a CBOR header ({ op, t }) followed by a
+ * CBOR body. op 1 is a message whose type is t; op -1 is an error frame,
+ * after which the server closes the connection.
+ */
+export function decodeFirehoseMessage(data: Buffer): FirehoseFrame | null {
   try {
     const buffer = new Uint8Array(data);
-    const [header, remainder] = decodeFirst(buffer);
-    const [body] = decodeFirst(remainder);
+    const [header, remainder] = decodeFirst(buffer) as [FrameHeader, Uint8Array];
+    const [body] = decodeFirst(remainder) as [FirehoseMessage, Uint8Array];
+
+    if (header.op === -1) {
+      return {
+        kind: "error",
+        error: String(body.error ?? "Unknown"),
+        message: body.message,
+      };
+    }
+
+    if (header.op === 1 && header.t === "#labels") {
+      return {
+        kind: "labels",
+        seq: body.seq ?? 0,
+        labels: extractLabelsFromMessage(body),
+      };
+    }
+
+    if (header.op === 1 && header.t === "#info") {
+      return {
+        kind: "info",
+        name: String(body.name ?? "Unknown"),
+        message: body.message,
+      };
+    }
 
-    return body as FirehoseMessage;
+    return { kind: "unknown", header };
   } catch (err) {
     logger.error(
       {
@@ -54,11 +94,39 @@ export function extractLabelsFromMessage(message: FirehoseMessage): LabelEvent[]
   return [];
 }
 
+// The atproto datetime format: RFC 3339 with seconds and a timezone
+const DATETIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Whether a label timestamp can be stored. Date.parse alone is too lenient:
+ * it accepts other formats and rolls days past the end of a month over,
+ * which the database rejects.
+ */
+export function isValidDatetime(value: string): boolean {
+  const match = DATETIME_PATTERN.exec(value);
+  if (!match || Number.isNaN(Date.parse(value))) return false;
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
 export function validateLabel(label: LabelEvent): boolean {
   if (!label.src || !label.uri || !label.val || !label.cts) {
     logger.warn({ label }, "Invalid label: missing required fields");
     return false;
   }
 
+  if (
+    typeof label.cts !== "string" ||
+    !isValidDatetime(label.cts) ||
+    (label.exp !== undefined &&
+      (typeof label.exp !== "string" || !isValidDatetime(label.exp)))
+  ) {
+    logger.warn({ label }, "Invalid label: malformed timestamp");
+    return false;
+  }
+
   return true;
 }
@@ -1,40 +1,270 @@
+import * as fs from "fs";
+import { z } from "zod";
 import { LabelEvent } from "./decoder.js";
-import { config } from "../config/index.js";
+import { Config, config } from "../config/index.js";
 import { logger } from "../logger/index.js";
 
+const listOf = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .union([item, z.array(item).min(1)])
+    .transform((value) => (Array.isArray(value) ? value : [value]) as z.infer<T>[]);
+
+const subjectKind = z.enum(["account", "post", "record"]);
+
+export type SubjectKind = z.infer<typeof subjectKind>;
+
+const filterRuleSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    action: z.enum(["include", "exclude"]),
+    // Globs: * matches any run of characters, ? a single one
+    val: listOf(z.string().min(1)).optional(),
+    valRegex: z
+      .string()
+      .refine(
+        (pattern) => {
+          try {
+            new RegExp(pattern);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: "valRegex is not a valid regular expression" }
+      )
+      .optional(),
+    src: listOf(z.string().min(1)).optional(),
+    subject: listOf(subjectKind).optional(),
+    neg: z.boolean().optional(),
+  })
+  .strict();
+
+export const filterRulesSchema = z
+  .object({
+    default: z.enum(["include", "exclude"]).default("include"),
+    rules: z.array(filterRuleSchema).default([]),
+  })
+  .strict();
+
+export type FilterRules = z.input<typeof filterRulesSchema>;
+
+export interface FilterDecision {
+  capture: boolean;
+  // Name of the matching rule, or "default" when none matched
+  rule: string;
+}
+
+interface CompiledRule {
+  name: string;
+  capture: boolean;
+  matches: (label: LabelEvent) => boolean;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\!]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Classifies a label's subject: an account (a bare DID, at://did or the
+ * profile record, which is hydrated as the account), a post, or any other
+ * record.
+ */
+export function subjectKindOf(uri: string): SubjectKind {
+  if (uri.startsWith("did:")) return "account";
+
+  const parts = uri.replace("at://", "").split("/");
+  if (parts.length === 1) return "account";
+  if (parts[1] === "app.bsky.actor.profile") return "account";
+  if (parts[1] === "app.bsky.feed.post") return "post";
+  return "record";
+}
+
+function compileRule(
+  rule: z.infer<typeof filterRuleSchema>,
+  index: number
+): CompiledRule {
+  const predicates: ((label: LabelEvent) => boolean)[] = [];
+
+  if (rule.val) {
+    const globs = rule.val.map(globToRegExp);
+    predicates.push((label) => globs.some((glob) => glob.test(label.val)));
+  }
+  if (rule.valRegex) {
+    const regex = new RegExp(rule.valRegex);
+    predicates.push((label) => regex.test(label.val));
+  }
+  if (rule.src) {
+    const sources = new Set(rule.src);
+    predicates.push((label) => sources.has(label.src));
+  }
+  if (rule.subject) {
+    const kinds = new Set(rule.subject);
+    predicates.push((label) => kinds.has(subjectKindOf(label.uri)));
+  }
+  if (rule.neg !== undefined) {
+    const neg = rule.neg;
+    predicates.push((label) => (label.neg ?? false) === neg);
+  }
+
+  return {
+    name: rule.name ?? `rules[${index}]`,
+    capture: rule.action === "include",
+    matches: (label) => predicates.every((predicate) => predicate(label)),
+  };
+}
+
+/**
+ * Reads and validates a JSON rules file. Throws with the validation errors
+ * when the file is malformed.
+ */
+export function loadFilterRules(file: string): FilterRules {
+  const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const result = filterRulesSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid filter rules in ${file}: ${issues}`);
+  }
+
+  return data;
+}
+
+// CAPTURE_LABELS is shorthand for a single include rule
+function rulesFromCaptureLabels(labels: string[]): FilterRules {
+  return {
+    default: "exclude",
+    rules: [{ name: "CAPTURE_LABELS", action: "include", val: labels }],
+  };
+}
+
+function rulesFromConfig(filtering: Config["filtering"]): FilterRules | null {
+  if (filtering.rulesFile) {
+    return loadFilterRules(filtering.rulesFile);
+  }
+
+  const labels = filtering.captureLabels;
+  return labels && labels.length > 0 ? rulesFromCaptureLabels(labels) : null;
+}
+
+interface RuleSet {
+  rules: CompiledRule[];
+  defaultCapture: boolean;
+  allowedLabels: string[] | null;
+}
+
+function compileRuleSet(rules: FilterRules | null): RuleSet {
+  if (!rules) {
+    logger.info("Label filtering disabled - capturing all labels");
+    return { rules: [], defaultCapture: true, allowedLabels: null };
+  }
+
+  const parsed = filterRulesSchema.parse(rules);
+  const [first] = parsed.rules;
+
+  logger.info(
+    {
+      rules: parsed.rules.map((rule, index) => rule.name ?? `rules[${index}]`),
+      default: parsed.default,
+    },
+    "Label filtering enabled"
+  );
+
+  return {
+    rules: parsed.rules.map(compileRule),
+    defaultCapture: parsed.default === "include",
+    allowedLabels:
+      parsed.rules.length === 1 && first.name === "CAPTURE_LABELS"
+        ? (first.val ?? null)
+        : null,
+  };
+}
+
+// Shared by every filter built from config, so a reload reaches all
+// subscribers at once
+let configuredRuleSet: RuleSet | null = null;
+
+function getConfiguredRuleSet(): RuleSet {
+  configuredRuleSet ??= compileRuleSet(rulesFromConfig(config.filtering));
+  return configuredRuleSet;
+}
+
+/**
+ * Compiles the rules for the given filtering config and swaps them in for
+ * every config-backed filter. Throws, leaving the current rules in place,
+ * when the rules file is missing or invalid.
+ */
+export function reloadFilterRules(filtering: Config["filtering"]): void {
+  configuredRuleSet = compileRuleSet(rulesFromConfig(filtering));
+}
+
+/**
+ * Decides which labels are captured. Rules are checked in order and the
+ * first one whose conditions all hold decides; labels matching no rule
+ * fall back to the default action. A rule without conditions matches
+ * every label.
+ *
+ * Without explicit rules the filter follows the configured rules,
+ * including later reloads.
+ */
 export class LabelFilter {
-  private allowedLabels: Set<string> | null;
-
-  constructor(allowedLabels?: string[]) {
-    const labels = allowedLabels ?? config.filtering.captureLabels;
-
-    if (labels && labels.length > 0) {
-      this.allowedLabels = new Set(labels);
-      logger.info(
-        { labels: Array.from(this.allowedLabels) },
-        "Label filtering enabled"
-      );
-    } else {
-      this.allowedLabels = null;
-      logger.info("Label filtering disabled - capturing all labels");
+  private ruleSet: RuleSet | null = null;
+
+  constructor(rules?: string[] | FilterRules) {
+    if (rules === undefined) {
+      getConfiguredRuleSet();
+      return;
     }
+
+    this.ruleSet = compileRuleSet(
+      Array.isArray(rules)
+        ? rules.length > 0
+          ? rulesFromCaptureLabels(rules)
+          : null
+        : rules
+    );
   }
 
-  shouldCapture(label: LabelEvent): boolean {
-    if (this.allowedLabels === null) {
-      return true;
-    }
+  private get activeRuleSet(): RuleSet {
+    return this.ruleSet ?? getConfiguredRuleSet();
+  }
 
-    const shouldCapture = this.allowedLabels.has(label.val);
+  evaluate(label: LabelEvent): FilterDecision {
+    const { rules, defaultCapture } = this.activeRuleSet;
+    const rule = rules.find((candidate) => candidate.matches(label));
+    return rule
+      ? { capture: rule.capture, rule: rule.name }
+      : { capture: defaultCapture, rule: "default" };
+  }
 
-    if (!shouldCapture) {
-      logger.debug({ val: label.val }, "Label filtered out");
-    }
+  shouldCapture(label: LabelEvent): boolean {
+    const decision = this.evaluate(label);
+
+    logger.debug(
+      {
+        val: label.val,
+        src: label.src,
+        uri: label.uri,
+        rule: decision.rule,
+        capture: decision.capture,
+      },
+      decision.capture ? "Label captured by filter" : "Label filtered out"
+    );
 
-    return shouldCapture;
+    return decision.capture;
   }
 
   getFilteredLabels(): string[] | null {
-    return this.allowedLabels ? Array.from(this.allowedLabels) : null;
+    const { allowedLabels } = this.activeRuleSet;
+    return allowedLabels ? [...allowedLabels] : null;
   }
 }
@@ -0,0 +1,199 @@
+import { EventEmitter } from "events";
+import { fromBytes, isBytes } from "@atcute/cbor";
+import { config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+import { LabelEvent, validateLabel } from "./decoder.js";
+import { LabelFilter } from "./filter.js";
+import { LabelVerifier, SignatureStatus } from "./verifier.js";
+import { subscriptionId } from "./subscriber.js";
+import { LabelsRepository } from "../database/labels.repository.js";
+
+const MAX_PAGE_SIZE = 250;
+
+export interface QueryLabelsOptions {
+  uriPatterns: string[];
+  sources: string[];
+  limit?: number;
+  cursor?: string;
+}
+
+export interface QueryLabelsPage {
+  cursor?: string;
+  labels: LabelEvent[];
+}
+
+export interface QueryLabelsResult {
+  pages: number;
+  fetched: number;
+  stored: number;
+  cursor?: string;
+}
+
+/**
+ * The labeler's XRPC service lives on the same host as its subscribeLabels
+ * endpoint.
+ */
+export function labelerServiceUrl(wssUrl: string): string {
+  const url = new URL(wssUrl);
+  const protocol = url.protocol === "ws:" ? "http:" : "https:";
+  return `${protocol}//${url.host}`;
+}
+
+// Labels come back as JSON, with the signature as { $bytes: base64 }
+function fromJsonLabel(raw: any): LabelEvent {
+  const { sig, ...label } = raw;
+  return isBytes(sig) ? { ...label, sig: fromBytes(sig) } : label;
+}
+
+/**
+ * Fetches one page of com.atproto.label.queryLabels.
+ */
+export async function fetchLabelsPage(
+  serviceUrl: string,
+  options: QueryLabelsOptions
+): Promise<QueryLabelsPage> {
+  const url = new URL("/xrpc/com.atproto.label.queryLabels", serviceUrl);
+  for (const pattern of options.uriPatterns) {
+    url.searchParams.append("uriPatterns", pattern);
+  }
+  for (const source of options.sources) {
+    url.searchParams.append("sources", source);
+  }
+  url.searchParams.set(
+    "limit",
+    String(Math.min(options.limit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE))
+  );
+  if (options.cursor) {
+    url.searchParams.set("cursor", options.cursor);
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `queryLabels failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const body = await response.json();
+  return {
+    cursor: typeof body.cursor === "string" ? body.cursor : undefined,
+    labels: Array.isArray(body.labels) ? body.labels.map(fromJsonLabel) : [],
+  };
+}
+
+/**
+ * Pages through a labeler's queryLabels endpoint to pick up labels issued
+ * before the firehose was followed. Labels go through the same validation,
+ * filtering and signature policy as live ones; "label" is emitted once a
+ * label has been stored.
+ */
+export class QueryLabelsSource extends EventEmitter {
+  private filter: LabelFilter;
+  private verifier: LabelVerifier;
+  readonly subscription: string;
+
+  constructor(
+    private wssUrl: string,
+    private labels: LabelsRepository
+  ) {
+    super();
+    this.subscription = subscriptionId(wssUrl);
+    this.filter = new LabelFilter();
+    this.verifier = new LabelVerifier();
+  }
+
+  async run(options: QueryLabelsOptions): Promise<QueryLabelsResult> {
+    const serviceUrl = labelerServiceUrl(this.wssUrl);
+    const result: QueryLabelsResult = {
+      pages: 0,
+      fetched: 0,
+      stored: 0,
+      cursor: options.cursor,
+    };
+
+    while (true) {
+      const page = await fetchLabelsPage(serviceUrl, {
+        ...options,
+        cursor: result.cursor,
+      });
+
+      result.pages++;
+      result.fetched += page.labels.length;
+
+      for (const label of page.labels) {
+        if (await this.store(label)) {
+          result.stored++;
+        }
+      }
+
+      logger.info(
+        {
+          subscription: this.subscription,
+          labels: page.labels.length,
+          cursor: page.cursor,
+        },
+        "Fetched queryLabels page"
+      );
+
+      // Some labelers keep returning the last cursor on an empty page
+      if (
+        !page.cursor ||
+        page.cursor === result.cursor ||
+        page.labels.length === 0
+      ) {
+        break;
+      }
+      result.cursor = page.cursor;
+    }
+
+    return result;
+  }
+
+  private async store(label: LabelEvent): Promise<boolean> {
+    if (!validateLabel(label)) return false;
+    if (!this.filter.shouldCapture(label)) return false;
+
+    const sigStatus = await this.verifyLabel(label);
+    if (sigStatus !== null && sigStatus !== "valid") {
+      logger.warn(
+        { uri: label.uri, val: label.val, src: label.src, sigStatus },
+        "Label failed signature verification"
+      );
+      if (config.labeler.signaturePolicy === "reject") return false;
+    }
+
+    // One label the database rejects must not end the backfill; the
+    // repository has already logged why
+    try {
+      await this.labels.insert({
+        uri: label.uri,
+        cid: label.cid,
+        val: label.val,
+        neg: label.neg || false,
+        cts: label.cts,
+        exp: label.exp,
+        src: label.src,
+        sig_status: sigStatus,
+        subscription: this.subscription,
+      });
+    } catch {
+      logger.warn(
+        { uri: label.uri, val: label.val, src: label.src },
+        "Skipping queried label that could not be stored"
+      );
+      return false;
+    }
+
+    this.emit("label", label, sigStatus);
+    return true;
+  }
+
+  private async verifyLabel(
+    label: LabelEvent
+  ): Promise<SignatureStatus | null> {
+    if (config.labeler.signaturePolicy === "off") {
+      return null;
+    }
+    return this.verifier.verify(label);
+  }
+}
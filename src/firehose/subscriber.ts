@@ -4,110 +4,185 @@ import { config } from "../config/index.js";
 import { logger } from "../logger/index.js";
 import {
   decodeFirehoseMessage,
-  extractLabelsFromMessage,
   validateLabel,
+  FirehoseFrame,
   LabelEvent,
 } from "./decoder.js";
 import { LabelFilter } from "./filter.js";
+import { LabelVerifier, SignatureStatus } from "./verifier.js";
+import { SubscriptionStateRepository } from "../database/subscription-state.repository.js";
+import { FirehoseEventsRepository } from "../database/firehose-events.repository.js";
+import { FirehoseGapsRepository } from "../database/firehose-gaps.repository.js";
+import { CapturedFrame } from "./capture.js";
 import * as fs from "fs/promises";
 import * as path from "path";
 
-const CURSOR_FILE = path.join(config.database.path, "..", "cursor.txt");
+const DATA_DIR = path.join(config.database.path, "..");
+const LEGACY_CURSOR_FILE = path.join(DATA_DIR, "cursor.txt");
+const LEGACY_CURSOR_DIR = path.join(DATA_DIR, "cursors");
+
+/**
+ * Identifies a labeler subscription by the host of its endpoint. Stored
+ * with each label and used as the key of the subscription's cursor.
+ */
+export function subscriptionId(wssUrl: string): string {
+  return new URL(wssUrl).host;
+}
 
 export interface SubscriberEvents {
-  label: (label: LabelEvent) => void;
+  label: (label: LabelEvent, sigStatus: SignatureStatus | null) => void;
   error: (error: Error) => void;
   connected: () => void;
   disconnected: () => void;
+  replayed: (complete: boolean) => void;
+  frame: (data: Buffer) => void;
+}
+
+/**
+ * Replays the stream after from (exclusive) up to to, storing labels
+ * without moving the subscription's cursor.
+ */
+export interface ReplayRange {
+  from: number;
+  to: number;
 }
 
+interface PendingLabel {
+  label: LabelEvent;
+  sigStatus: SignatureStatus | null;
+}
+
+/**
+ * Follows one labeler's firehose. Labels are buffered and committed in
+ * batches together with the cursor; "label" is emitted only once a label
+ * has been stored.
+ */
 export class FirehoseSubscriber extends EventEmitter {
   private ws: WebSocket | null = null;
   private filter: LabelFilter;
+  private verifier: LabelVerifier;
   private reconnectAttempts = 0;
   private maxReconnectDelay = 30000;
   private baseReconnectDelay = 1000;
   private shouldReconnect = true;
   private cursor: number | null = null;
+  private connectedCursor: number | null = null;
+  private lastSeq: number | null = null;
+  private replayStart: number | null = null;
+  private replayFinished = false;
+  private playingCapture = false;
+  private slowConsumer = false;
+  private pendingLabels: PendingLabel[] = [];
+  private pendingCursor: number | null = null;
+  private pendingMessages = 0;
+  private work: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  readonly subscription: string;
 
-  constructor() {
+  constructor(
+    private wssUrl: string,
+    private store: SubscriptionStateRepository,
+    private events: FirehoseEventsRepository,
+    private gaps: FirehoseGapsRepository,
+    private replay: ReplayRange | null = null
+  ) {
     super();
+    this.subscription = subscriptionId(wssUrl);
     this.filter = new LabelFilter();
+    this.verifier = new LabelVerifier();
   }
 
   async start(): Promise<void> {
     await this.loadCursor();
+
+    this.flushTimer = setInterval(
+      () => this.schedule(() => this.flush()),
+      config.labeler.flushInterval
+    );
+    this.flushTimer.unref();
+
     this.connect();
   }
 
   private async loadCursor(): Promise<void> {
-    try {
-      const data = await fs.readFile(CURSOR_FILE, "utf-8");
-      this.cursor = parseInt(data.trim(), 10);
-      logger.info({ cursor: this.cursor }, "Loaded cursor from file");
-    } catch (error) {
-      logger.info("No existing cursor found, starting from beginning");
-      this.cursor = null;
+    if (this.replay) {
+      this.cursor = this.replay.from;
+      return;
     }
-  }
 
-  private async saveCursor(cursor: number): Promise<void> {
-    try {
-      await fs.writeFile(CURSOR_FILE, cursor.toString(), "utf-8");
-      this.cursor = cursor;
-    } catch (error) {
-      logger.error({ error }, "Failed to save cursor");
+    this.cursor = await this.store.getCursor(this.subscription);
+    if (this.cursor !== null) {
+      logger.info(
+        { subscription: this.subscription, cursor: this.cursor },
+        "Loaded cursor from database"
+      );
+      return;
     }
+
+    // Cursors used to be kept in files; pick those up once so an upgrade
+    // does not replay the whole stream. They are superseded by the first
+    // committed batch.
+    const candidates = [path.join(LEGACY_CURSOR_DIR, `${this.subscription}.txt`)];
+    if (config.labeler.wssUrls.length === 1) {
+      candidates.push(LEGACY_CURSOR_FILE);
+    }
+
+    for (const file of candidates) {
+      try {
+        const data = await fs.readFile(file, "utf-8");
+        this.cursor = parseInt(data.trim(), 10);
+        logger.info(
+          { subscription: this.subscription, cursor: this.cursor, file },
+          "Loaded cursor from legacy file"
+        );
+        return;
+      } catch {
+        continue;
+      }
+    }
+
+    logger.info(
+      { subscription: this.subscription },
+      "No existing cursor found, starting from beginning"
+    );
   }
 
   private connect(): void {
-    const url = new URL(config.labeler.wssUrl);
-    if (this.cursor !== null) {
-      url.searchParams.set("cursor", this.cursor.toString());
+    const url = new URL(this.wssUrl);
+    const cursor = this.pendingCursor ?? this.cursor;
+    if (cursor !== null) {
+      url.searchParams.set("cursor", cursor.toString());
     }
+    this.connectedCursor = cursor;
+    this.lastSeq = cursor;
 
     logger.info({ url: url.toString() }, "Connecting to firehose");
 
     this.ws = new WebSocket(url.toString());
 
     this.ws.on("open", () => {
-      logger.info("Connected to firehose");
+      logger.info({ subscription: this.subscription }, "Connected to firehose");
       this.reconnectAttempts = 0;
       this.emit("connected");
     });
 
-    this.ws.on("message", async (data: Buffer) => {
-      try {
-        const message = decodeFirehoseMessage(data);
-        if (!message) return;
-
-        if (message.t === "#info") {
-          logger.debug({ message }, "Received info message");
-          return;
-        }
-
-        if (message.seq) {
-          await this.saveCursor(message.seq);
-        }
-
-        const labels = extractLabelsFromMessage(message);
-        for (const label of labels) {
-          if (!validateLabel(label)) continue;
-          if (!this.filter.shouldCapture(label)) continue;
-          this.emit("label", label);
-        }
-      } catch (error) {
-        logger.error({ error }, "Error processing message");
-      }
+    // Messages are handled one at a time so labels are buffered, and
+    // cursors advance, in stream order.
+    this.ws.on("message", (data: Buffer) => {
+      this.emit("frame", data);
+      this.schedule(() => this.handleMessage(data));
     });
 
     this.ws.on("error", (error) => {
-      logger.error({ error }, "WebSocket error");
+      logger.error({ error, subscription: this.subscription }, "WebSocket error");
       this.emit("error", error);
     });
 
     this.ws.on("close", (code, reason) => {
-      logger.warn({ code, reason: reason.toString() }, "WebSocket closed");
+      logger.warn(
+        { subscription: this.subscription, code, reason: reason.toString() },
+        "WebSocket closed"
+      );
       this.ws = null;
       this.emit("disconnected");
 
@@ -117,16 +192,291 @@ export class FirehoseSubscriber extends EventEmitter {
     });
   }
 
-  private scheduleReconnect(): void {
-    const delay = Math.min(
-      this.baseReconnectDelay * Math.pow(2, this.reconnectAttempts),
-      this.maxReconnectDelay
+  /**
+   * Feeds recorded frames through the same path as live ones. speed scales
+   * the recorded timing (2 plays twice as fast); 0 plays without delays.
+   * Labels are stored but the subscription's cursor is left alone.
+   */
+  async playCapture(
+    frames: AsyncIterable<CapturedFrame>,
+    speed = 0
+  ): Promise<void> {
+    this.playingCapture = true;
+    this.shouldReconnect = false;
+
+    let previous: number | null = null;
+    for await (const frame of frames) {
+      if (speed > 0 && previous !== null && frame.timestamp > previous) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, (frame.timestamp - previous!) / speed)
+        );
+      }
+      previous = frame.timestamp;
+
+      await this.schedule(() => this.handleMessage(frame.data));
+    }
+
+    await this.schedule(() => this.flush());
+  }
+
+  // Gap replays and capture playback store labels without moving the
+  // subscription's cursor.
+  private get tracksCursor(): boolean {
+    return !this.replay && !this.playingCapture;
+  }
+
+  private schedule(task: () => Promise<void>): Promise<void> {
+    this.work = this.work.then(task).catch((error) => {
+      logger.error({ error, subscription: this.subscription }, "Error processing message");
+    });
+    return this.work;
+  }
+
+  private async handleMessage(data: Buffer): Promise<void> {
+    if (this.replayFinished) return;
+
+    const frame = decodeFirehoseMessage(data);
+    if (!frame) return;
+
+    switch (frame.kind) {
+      case "labels":
+        await this.bufferLabels(frame.labels, frame.seq);
+        break;
+      case "info":
+        await this.handleInfo(frame);
+        break;
+      case "error":
+        await this.handleError(frame);
+        break;
+      default:
+        logger.debug(
+          { subscription: this.subscription, header: frame.header },
+          "Ignoring unknown frame type"
+        );
+    }
+  }
+
+  private async bufferLabels(labels: LabelEvent[], seq: number): Promise<void> {
+    await this.trackSeq(seq);
+
+    for (const label of labels) {
+      if (!validateLabel(label)) continue;
+      if (!this.filter.shouldCapture(label)) continue;
+
+      const sigStatus = await this.verifyLabel(label);
+      if (sigStatus !== null && sigStatus !== "valid") {
+        logger.warn(
+          { uri: label.uri, val: label.val, src: label.src, sigStatus },
+          "Label failed signature verification"
+        );
+        if (config.labeler.signaturePolicy === "reject") continue;
+      }
+
+      this.pendingLabels.push({ label, sigStatus });
+    }
+
+    if (seq) {
+      this.pendingCursor = seq;
+      this.pendingMessages++;
+    }
+
+    if (this.replay && seq >= this.replay.to) {
+      await this.finishReplay();
+      return;
+    }
+
+    if (this.pendingMessages >= config.labeler.batchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Checks that seq follows the last one seen and records any jump as a gap.
+   */
+  private async trackSeq(seq: number): Promise<void> {
+    if (!seq) return;
+
+    const lastSeq = this.lastSeq;
+    this.lastSeq = seq;
+
+    if (this.replay) {
+      this.replayStart ??= seq;
+      return;
+    }
+
+    if (lastSeq === null || seq === lastSeq + 1) return;
+
+    if (seq <= lastSeq) {
+      logger.debug(
+        { subscription: this.subscription, seq, lastSeq },
+        "Received out-of-order sequence number"
+      );
+      return;
+    }
+
+    logger.warn(
+      { subscription: this.subscription, from: lastSeq, to: seq, missing: seq - lastSeq - 1 },
+      "Sequence gap detected"
+    );
+
+    // Gaps in a played-back capture are not gaps in the stored data
+    if (!this.tracksCursor) return;
+
+    await this.gaps.record({
+      subscription: this.subscription,
+      from_seq: lastSeq,
+      to_seq: seq,
+    });
+  }
+
+  private async finishReplay(): Promise<void> {
+    this.replayFinished = true;
+    await this.flush();
+
+    // The labeler may no longer hold the start of the range, in which case
+    // the stream began later than requested.
+    const complete =
+      this.replayStart !== null && this.replayStart <= this.replay!.from + 1;
+
+    this.shouldReconnect = false;
+    this.ws?.close();
+    this.emit("replayed", complete);
+  }
+
+  private async handleInfo(
+    frame: Extract<FirehoseFrame, { kind: "info" }>
+  ): Promise<void> {
+    const context = {
+      subscription: this.subscription,
+      name: frame.name,
+      message: frame.message,
+      cursor: this.connectedCursor,
+    };
+
+    // The requested cursor is older than what the labeler retains; the
+    // stream restarts from its oldest event, so anything in between is lost.
+    if (frame.name === "OutdatedCursor") {
+      logger.warn(context, "Cursor is outdated, labels may have been missed");
+    } else {
+      logger.info(context, "Received info frame");
+    }
+
+    await this.events.record({
+      subscription: this.subscription,
+      kind: "info",
+      name: frame.name,
+      message: frame.message,
+      cursor: this.connectedCursor,
+    });
+  }
+
+  private async handleError(
+    frame: Extract<FirehoseFrame, { kind: "error" }>
+  ): Promise<void> {
+    const context = {
+      subscription: this.subscription,
+      error: frame.error,
+      message: frame.message,
+      cursor: this.connectedCursor,
+    };
+
+    switch (frame.error) {
+      case "FutureCursor":
+        // The cursor is ahead of the labeler, e.g. after it was reset;
+        // start over from the live stream.
+        logger.warn(context, "Cursor is ahead of the labeler, resetting cursor");
+        // Commit what was buffered first; committing it after the reset
+        // would store the rejected cursor again
+        await this.flush();
+        this.pendingCursor = null;
+        this.cursor = null;
+        this.lastSeq = null;
+        if (this.tracksCursor) {
+          await this.store.clearCursor(this.subscription);
+        }
+        break;
+      case "ConsumerTooSlow":
+        logger.warn(context, "Labeler dropped a slow consumer, backing off");
+        this.slowConsumer = true;
+        break;
+      default:
+        logger.error(context, "Received error frame");
+    }
+
+    await this.events.record({
+      subscription: this.subscription,
+      kind: "error",
+      name: frame.error,
+      message: frame.message,
+      cursor: this.connectedCursor,
+    });
+  }
+
+  /**
+   * Commits buffered labels and the cursor of the last buffered message.
+   * On failure the batch stays buffered and is retried on the next flush.
+   */
+  private async flush(): Promise<void> {
+    if (this.pendingCursor === null) return;
+
+    const batch = this.pendingLabels;
+    const cursor = this.pendingCursor;
+
+    await this.store.commitBatch(
+      this.subscription,
+      this.tracksCursor ? cursor : null,
+      batch.map(({ label, sigStatus }) => ({
+        uri: label.uri,
+        cid: label.cid,
+        val: label.val,
+        neg: label.neg || false,
+        cts: label.cts,
+        exp: label.exp,
+        src: label.src,
+        sig_status: sigStatus,
+        subscription: this.subscription,
+      }))
     );
 
+    this.pendingLabels = [];
+    this.pendingCursor = null;
+    this.pendingMessages = 0;
+    this.cursor = cursor;
+
+    logger.debug(
+      { subscription: this.subscription, cursor, labels: batch.length },
+      "Committed label batch"
+    );
+
+    for (const { label, sigStatus } of batch) {
+      this.emit("label", label, sigStatus);
+    }
+  }
+
+  private async verifyLabel(
+    label: LabelEvent
+  ): Promise<SignatureStatus | null> {
+    if (config.labeler.signaturePolicy === "off") {
+      return null;
+    }
+    return this.verifier.verify(label);
+  }
+
+  private scheduleReconnect(): void {
+    // A slow consumer reconnects after the longest delay to give the
+    // labeler and the hydration backlog room to recover.
+    const delay = this.slowConsumer
+      ? this.maxReconnectDelay
+      : Math.min(
+          this.baseReconnectDelay * Math.pow(2, this.reconnectAttempts),
+          this.maxReconnectDelay
+        );
+
+    this.slowConsumer = false;
     this.reconnectAttempts++;
 
     logger.info(
-      { delay, attempt: this.reconnectAttempts },
+      { subscription: this.subscription, delay, attempt: this.reconnectAttempts },
       "Scheduling reconnection"
     );
 
@@ -137,14 +487,24 @@ export class FirehoseSubscriber extends EventEmitter {
     }, delay);
   }
 
-  stop(): void {
+  /**
+   * Disconnects and commits whatever is still buffered.
+   */
+  async stop(): Promise<void> {
     this.shouldReconnect = false;
 
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
 
-    logger.info("Firehose subscriber stopped");
+    await this.schedule(() => this.flush());
+
+    logger.info({ subscription: this.subscription }, "Firehose subscriber stopped");
   }
 }
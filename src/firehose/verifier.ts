@@ -0,0 +1,128 @@
+import { encode, fromBytes, isBytes } from "@atcute/cbor";
+import { formatDidKey, multibaseToBytes, verifySignature } from "@atproto/crypto";
+import { LabelEvent } from "./decoder.js";
+import { config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+import { DidResolver } from "../identity/did-resolver.js";
+
+export type SignatureStatus = "valid" | "invalid" | "unsigned" | "unresolved";
+
+const LEGACY_KEY_ALGS: Record<string, string> = {
+  EcdsaSecp256k1VerificationKey2019: "ES256K",
+  EcdsaSecp256r1VerificationKey2019: "ES256",
+};
+
+export function encodeUnsignedLabel(label: LabelEvent): Uint8Array {
+  const { sig, ...unsigned } = label;
+  return encode(unsigned);
+}
+
+function toSignatureBytes(sig: unknown): Uint8Array | null {
+  if (sig instanceof Uint8Array) {
+    return sig;
+  }
+  if (isBytes(sig)) {
+    return fromBytes(sig);
+  }
+  return null;
+}
+
+export class LabelVerifier {
+  private resolver: DidResolver;
+  // When each labeler's document was last refetched after a failed check
+  private refreshedAt = new Map<string, number>();
+
+  /**
+   * refreshInterval is how long to wait, after refetching a labeler's key
+   * for a label that failed verification, before refetching it again, so a
+   * stream of badly signed labels cannot cause one lookup per label.
+   */
+  constructor(
+    plcEndpoint: string = config.plc.endpoint,
+    private refreshInterval: number = config.plc.cacheTtl
+  ) {
+    this.resolver = new DidResolver(plcEndpoint);
+  }
+
+  async verify(label: LabelEvent): Promise<SignatureStatus> {
+    const sig = toSignatureBytes(label.sig);
+    if (!sig) {
+      return "unsigned";
+    }
+
+    const data = encodeUnsignedLabel(label);
+
+    const didKey = await this.getSigningKey(label.src);
+    if (!didKey) {
+      return "unresolved";
+    }
+
+    if (await this.checkSignature(didKey, data, sig)) {
+      return "valid";
+    }
+
+    // The labeler may have rotated its key since we cached it
+    const lastRefresh = this.refreshedAt.get(label.src);
+    if (lastRefresh !== undefined && Date.now() - lastRefresh < this.refreshInterval) {
+      return "invalid";
+    }
+    this.refreshedAt.set(label.src, Date.now());
+
+    const refreshedKey = await this.getSigningKey(label.src, true);
+    if (
+      refreshedKey &&
+      refreshedKey !== didKey &&
+      (await this.checkSignature(refreshedKey, data, sig))
+    ) {
+      return "valid";
+    }
+
+    return "invalid";
+  }
+
+  private async checkSignature(
+    didKey: string,
+    data: Uint8Array,
+    sig: Uint8Array
+  ): Promise<boolean> {
+    try {
+      return await verifySignature(didKey, data, sig);
+    } catch (error) {
+      logger.debug({ error, didKey }, "Signature verification errored");
+      return false;
+    }
+  }
+
+  private async getSigningKey(
+    did: string,
+    forceRefresh = false
+  ): Promise<string | null> {
+    const doc = await this.resolver.resolve(did, forceRefresh);
+    if (!doc) {
+      return null;
+    }
+
+    const method = this.resolver.findVerificationMethod(doc, "#atproto_label");
+    if (!method?.publicKeyMultibase) {
+      logger.warn({ did }, "No #atproto_label key found in DID document");
+      return null;
+    }
+
+    if (method.type === "Multikey") {
+      return `did:key:${method.publicKeyMultibase}`;
+    }
+
+    const jwtAlg = LEGACY_KEY_ALGS[method.type];
+    if (!jwtAlg) {
+      logger.warn({ did, type: method.type }, "Unsupported labeler key type");
+      return null;
+    }
+
+    try {
+      return formatDidKey(jwtAlg, multibaseToBytes(method.publicKeyMultibase));
+    } catch (error) {
+      logger.error({ error, did }, "Failed to decode labeler signing key");
+      return null;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { RetryError } from "../utils/retry-error.js";
+import {
+  HydrationOutcome,
+  HydrationStatus,
+} from "../database/hydration-outcomes.repository.js";
+
+export type ClassifiedOutcome = Pick<
+  HydrationOutcome,
+  "status" | "http_status" | "error" | "message"
+>;
+
+// XRPC error names a PDS answers getRecord with when the content is gone
+const XRPC_ERROR_STATUSES: Record<string, HydrationStatus> = {
+  RecordNotFound: "not_found",
+  RepoNotFound: "not_found",
+  RepoTakendown: "takendown",
+  RepoSuspended: "takendown",
+  RepoDeactivated: "deactivated",
+};
+
+/**
+ * Classifies a failed fetch by its XRPC error name, looking through the
+ * RetryError that withRetry wraps failures in. Anything unrecognised is an
+ * error, which says nothing about whether the content still exists.
+ */
+export function classifyError(error: unknown): ClassifiedOutcome {
+  const cause: any = error instanceof RetryError ? error.lastError : error;
+  const name = typeof cause?.error === "string" ? cause.error : null;
+
+  let status: HydrationStatus = (name && XRPC_ERROR_STATUSES[name]) || "error";
+  if (status === "error" && cause?.message?.includes("RecordNotFound")) {
+    status = "not_found";
+  }
+
+  return {
+    status,
+    http_status: typeof cause?.status === "number" ? cause.status : null,
+    error: name,
+    message: cause?.message ?? String(error),
+  };
+}
@@ -0,0 +1,46 @@
+import { logger } from "../logger/index.js";
+import {
+  HydrationOutcome,
+  HydrationOutcomesRepository,
+  HydrationStatus,
+} from "../database/hydration-outcomes.repository.js";
+import { classifyError } from "./classify-error.js";
+
+// A database failure here must not replace the result of the fetch; the
+// repository has already logged it
+async function recordOutcome(
+  outcomes: HydrationOutcomesRepository,
+  outcome: HydrationOutcome
+): Promise<void> {
+  try {
+    await outcomes.record(outcome);
+  } catch {
+    logger.debug({ subject: outcome.subject }, "Hydration outcome not recorded");
+  }
+}
+
+/**
+ * Runs the fetch for a subject and records its outcome. The result is null
+ * when the subject is gone, i.e. not found, taken down or deactivated;
+ * other failures are recorded and rethrown so the task is retried.
+ */
+export async function trackOutcome<T>(
+  outcomes: HydrationOutcomesRepository,
+  target: Pick<HydrationOutcome, "type" | "subject">,
+  fetch: () => Promise<T>
+): Promise<{ result: T | null; status: HydrationStatus }> {
+  let result: T;
+  try {
+    result = await fetch();
+  } catch (error) {
+    const outcome = classifyError(error);
+    await recordOutcome(outcomes, { ...target, ...outcome });
+    if (outcome.status === "error") {
+      throw error;
+    }
+    return { result: null, status: outcome.status };
+  }
+
+  await recordOutcome(outcomes, { ...target, status: "ok" });
+  return { result, status: "ok" };
+}
@@ -0,0 +1,100 @@
+import { HYDRATION_POLICIES, config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+import { LabelsRepository } from "../database/labels.repository.js";
+import { HydrationTask } from "./queue.js";
+
+/**
+ * How much of a labeled subject is hydrated, from least to most:
+ * - none: nothing is fetched
+ * - record-only: the post or profile record, no blobs
+ * - hashes-only: blobs are downloaded and hashed, never stored
+ * - full-blob: blobs are hashed and written to blob storage
+ */
+export type HydrationPolicy = (typeof HYDRATION_POLICIES)[number];
+
+// Before per-label policies, HYDRATE_BLOBS alone decided whether bytes
+// were stored; it remains the default for unlisted values
+export function defaultHydrationPolicy(): HydrationPolicy {
+  return (
+    config.hydration.defaultPolicy ??
+    (config.blobs.hydrateBlobs ? "full-blob" : "hashes-only")
+  );
+}
+
+export function policyForLabel(val: string): HydrationPolicy {
+  return config.hydration.policies[val] ?? defaultHydrationPolicy();
+}
+
+/**
+ * Combines the policies of every label on a subject. The most thorough
+ * policy wins so a low-value label never blocks hydration another label
+ * needs, except that blob bytes are never stored while any label asks for
+ * hashes only.
+ */
+export function combinePolicies(policies: HydrationPolicy[]): HydrationPolicy {
+  if (policies.length === 0) return defaultHydrationPolicy();
+
+  const strongest = policies.reduce((a, b) =>
+    HYDRATION_POLICIES.indexOf(a) >= HYDRATION_POLICIES.indexOf(b) ? a : b
+  );
+
+  if (strongest === "full-blob" && policies.includes("hashes-only")) {
+    return "hashes-only";
+  }
+  return strongest;
+}
+
+export function fetchesRecord(policy: HydrationPolicy): boolean {
+  return policy !== "none";
+}
+
+export function hashesBlobs(policy: HydrationPolicy): boolean {
+  return policy === "hashes-only" || policy === "full-blob";
+}
+
+export function storesBlobs(policy: HydrationPolicy): boolean {
+  return policy === "full-blob";
+}
+
+/**
+ * Whether any configured policy can store blob bytes, i.e. whether blob
+ * storage has to be set up.
+ */
+export function usesBlobStorage(): boolean {
+  return (
+    storesBlobs(defaultHydrationPolicy()) ||
+    Object.values(config.hydration.policies).some(storesBlobs)
+  );
+}
+
+// URIs a task's subject may have been labeled under
+function subjectUris(task: HydrationTask): string[] {
+  return task.type === "profile"
+    ? [
+        task.identifier,
+        `at://${task.identifier}`,
+        `at://${task.identifier}/app.bsky.actor.profile/self`,
+      ]
+    : [task.identifier];
+}
+
+/**
+ * Resolves the policy for a hydration task from every label stored for its
+ * subject, so tasks resumed after a restart or queued by a backfill get the
+ * same treatment as live ones.
+ */
+export class HydrationPolicyResolver {
+  constructor(private labels: LabelsRepository) {}
+
+  async resolve(task: HydrationTask): Promise<HydrationPolicy> {
+    const values = await this.labels.findValuesForSubject(subjectUris(task));
+    const policy = combinePolicies(values.map(policyForLabel));
+
+    logger.debug(
+      { type: task.type, identifier: task.identifier, values, policy },
+      "Resolved hydration policy"
+    );
+
+    return policy;
+  }
+}
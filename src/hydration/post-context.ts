@@ -0,0 +1,47 @@
+const POST_COLLECTION = "app.bsky.feed.post";
+
+/**
+ * The posts a post record points at: the reply parent and thread root,
+ * and the record it quotes. The quote may be any record type, e.g. a list
+ * or feed generator.
+ */
+export interface PostRefs {
+  reply_parent_uri?: string;
+  reply_root_uri?: string;
+  quote_uri?: string;
+}
+
+function quotedUri(embed: any): string | undefined {
+  switch (embed?.$type) {
+    case "app.bsky.embed.record":
+      return embed.record?.uri;
+    case "app.bsky.embed.recordWithMedia":
+      return embed.record?.record?.uri;
+    default:
+      return undefined;
+  }
+}
+
+export function postRefs(record: any): PostRefs {
+  return {
+    reply_parent_uri: record?.reply?.parent?.uri,
+    reply_root_uri: record?.reply?.root?.uri,
+    quote_uri: quotedUri(record?.embed),
+  };
+}
+
+function isPostUri(uri: string): boolean {
+  const parts = uri.replace("at://", "").split("/");
+  return uri.startsWith("at://") && parts.length === 3 && parts[1] === POST_COLLECTION;
+}
+
+/**
+ * The referenced posts worth hydrating as context, without duplicates:
+ * a direct reply has the same parent and root.
+ */
+export function contextUris(refs: PostRefs): string[] {
+  const uris = [refs.reply_parent_uri, refs.reply_root_uri, refs.quote_uri];
+  return [
+    ...new Set(uris.filter((uri): uri is string => !!uri && isPostUri(uri))),
+  ];
+}
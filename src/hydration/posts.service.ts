@@ -1,121 +1,193 @@
-import { AtpAgent } from "@atproto/api";
 import { Database } from "duckdb";
-import { PostsRepository } from "../database/posts.repository.js";
+import { Post, PostsRepository } from "../database/posts.repository.js";
+import {
+  HydrationOutcomesRepository,
+  HydrationStatus,
+} from "../database/hydration-outcomes.repository.js";
 import { BlobProcessor } from "../blobs/processor.js";
-import { pRateLimit } from "p-ratelimit";
-import { withRetry, isRateLimitError, isNetworkError, isServerError, isRecordNotFoundError } from "../utils/retry.js";
+import { withRetry, isRateLimitError, isNetworkError, isServerError } from "../utils/retry.js";
 import { logger } from "../logger/index.js";
 import { config } from "../config/index.js";
+import { agentForDid } from "../identity/pds.js";
+import {
+  HydrationPolicy,
+  defaultHydrationPolicy,
+  fetchesRecord,
+  hashesBlobs,
+} from "./policy.js";
+import { PostRefs, contextUris, postRefs } from "./post-context.js";
+import { trackOutcome } from "./outcomes.js";
+import { HydrationRateLimit } from "./rate-limit.js";
 
 export class PostHydrationService {
-  private agent: AtpAgent;
   private postsRepo: PostsRepository;
+  private outcomesRepo: HydrationOutcomesRepository;
   private blobProcessor: BlobProcessor;
-  private limit: ReturnType<typeof pRateLimit>;
+  private limit: HydrationRateLimit;
 
-  constructor(db: Database) {
-    this.agent = new AtpAgent({ service: `https://${config.bsky.pds}` });
+  constructor(db: Database, limit: HydrationRateLimit) {
     this.postsRepo = new PostsRepository(db);
-    this.blobProcessor = new BlobProcessor(db, this.agent);
-    this.limit = pRateLimit({
-      interval: 300000,
-      rate: 3000,
-      concurrency: 48,
-      maxDelay: 60000,
-    });
+    this.outcomesRepo = new HydrationOutcomesRepository(db);
+    this.blobProcessor = new BlobProcessor(db);
+    this.limit = limit;
   }
 
-  async initialize(): Promise<void> {
-    try {
-      await this.agent.login({
-        identifier: config.bsky.handle,
-        password: config.bsky.password,
-      });
-      logger.info("Post hydration service authenticated");
-    } catch (error) {
-      logger.error({ error }, "Failed to authenticate post hydration service");
-      throw error;
+  async hydratePost(
+    uri: string,
+    policy: HydrationPolicy = defaultHydrationPolicy()
+  ): Promise<void> {
+    if (!fetchesRecord(policy)) {
+      logger.debug({ uri }, "Hydration policy is none, skipping post");
+      return;
     }
-  }
 
-  async hydratePost(uri: string): Promise<void> {
     try {
       const existingPost = await this.postsRepo.findByUri(uri);
-      if (existingPost) {
+      if (existingPost && !existingPost.is_context) {
         logger.debug({ uri }, "Post already hydrated, skipping");
         return;
       }
 
+      if (existingPost) {
+        logger.debug({ uri }, "Post was hydrated as context, hydrating as labeled");
+      }
+
       const uriParts = uri.replace("at://", "").split("/");
       if (uriParts.length !== 3) {
         logger.warn({ uri }, "Invalid post URI format");
         return;
       }
 
-      const [did, collection, rkey] = uriParts;
-
-      const response = await this.limit(() =>
-        withRetry(
-          async () => {
-            return await this.agent.com.atproto.repo.getRecord({
-              repo: did,
-              collection,
-              rkey,
-            });
-          },
-          {
-            maxAttempts: 3,
-            initialDelay: 1000,
-            maxDelay: 10000,
-            backoffMultiplier: 2,
-            retryableErrors: [
-              isRateLimitError,
-              isNetworkError,
-              isServerError,
-            ],
-          }
-        )
-      );
-
-      if (!response.success || !response.data.value) {
-        logger.warn({ uri }, "Failed to fetch post record");
+      const { record, status } = await this.fetchWithOutcome(uri);
+      if (!record) {
+        logger.warn({ uri, status }, "Post record unavailable, skipping");
         return;
       }
 
-      const record = response.data.value as any;
+      const embeds = record.embed ? [record.embed] : null;
+      const refs = postRefs(record);
 
-      const isReply = !!record.reply;
+      await this.postsRepo.insert(toPost(uri, record, refs));
 
-      const embeds = record.embed ? [record.embed] : null;
+      logger.info({ uri, policy }, "Post hydrated successfully");
 
-      await this.postsRepo.insert({
-        uri,
-        did,
-        text: record.text || "",
-        facets: record.facets || null,
-        embeds,
-        langs: record.langs || null,
-        tags: record.tags || null,
-        created_at: record.createdAt,
-        is_reply: isReply,
-      });
-
-      logger.info({ uri }, "Post hydrated successfully");
-
-      if (embeds) {
+      if (embeds && hashesBlobs(policy)) {
         try {
-          await this.blobProcessor.processBlobs(uri, embeds);
+          await this.blobProcessor.processBlobs(uri, embeds, policy);
         } catch (error) {
           logger.warn({ error, uri }, "Failed to process blobs for post");
         }
       }
+
+      await this.hydrateContext(uri, refs, config.hydration.contextDepth);
     } catch (error) {
-      if (isRecordNotFoundError(error)) {
-        logger.warn({ uri }, "Post record not found, skipping");
-        return;
-      }
       logger.error({ error, uri }, "Failed to hydrate post");
       throw error;
     }
   }
+
+  /**
+   * Hydrates the posts a post replied to or quoted, and theirs in turn, up
+   * to depth levels. Context posts are stored with is_context set and
+   * without their blobs. Failures are logged and never fail the labeled
+   * post.
+   */
+  private async hydrateContext(
+    from: string,
+    refs: PostRefs,
+    depth: number
+  ): Promise<void> {
+    if (depth <= 0) return;
+
+    for (const uri of contextUris(refs)) {
+      try {
+        if (await this.postsRepo.findByUri(uri)) continue;
+
+        const { record, status } = await this.fetchWithOutcome(uri);
+        if (!record) {
+          logger.debug({ uri, from, status }, "Context post unavailable, skipping");
+          continue;
+        }
+
+        const contextRefs = postRefs(record);
+        await this.postsRepo.insert({
+          ...toPost(uri, record, contextRefs),
+          is_context: true,
+        });
+        logger.debug({ uri, from }, "Context post hydrated");
+
+        await this.hydrateContext(uri, contextRefs, depth - 1);
+      } catch (error) {
+        logger.warn({ error, uri, from }, "Failed to hydrate context post");
+      }
+    }
+  }
+
+  /**
+   * Fetches a stored post again to see whether it still exists and records
+   * the outcome. The stored post is left as it was.
+   */
+  async recheckPost(uri: string): Promise<HydrationStatus> {
+    try {
+      return (await this.fetchWithOutcome(uri)).status;
+    } catch {
+      return "error";
+    }
+  }
+
+  private async fetchWithOutcome(
+    uri: string
+  ): Promise<{ record: any | null; status: HydrationStatus }> {
+    const { result, status } = await trackOutcome(
+      this.outcomesRepo,
+      { type: "post", subject: uri },
+      () => this.fetchRecord(uri)
+    );
+    return { record: result, status };
+  }
+
+  private async fetchRecord(uri: string): Promise<any | null> {
+    const [did, collection, rkey] = uri.replace("at://", "").split("/");
+
+    const response = await this.limit(() =>
+      withRetry(
+        async () => {
+          const agent = await agentForDid(did);
+          return await agent.com.atproto.repo.getRecord({
+            repo: did,
+            collection,
+            rkey,
+          });
+        },
+        {
+          maxAttempts: 3,
+          initialDelay: 1000,
+          maxDelay: 10000,
+          backoffMultiplier: 2,
+          retryableErrors: [
+            isRateLimitError,
+            isNetworkError,
+            isServerError,
+          ],
+        }
+      )
+    );
+
+    return response.success && response.data.value ? response.data.value : null;
+  }
+}
+
+function toPost(uri: string, record: any, refs: PostRefs): Post {
+  return {
+    uri,
+    did: uri.replace("at://", "").split("/")[0],
+    text: record.text || "",
+    facets: record.facets || null,
+    embeds: record.embed ? [record.embed] : null,
+    langs: record.langs || null,
+    tags: record.tags || null,
+    created_at: record.createdAt,
+    is_reply: !!record.reply,
+    ...refs,
+  };
 }
@@ -1,99 +1,100 @@
-import { AtpAgent } from "@atproto/api";
 import { Database } from "duckdb";
 import { ProfilesRepository } from "../database/profiles.repository.js";
 import { ProfileBlobsRepository } from "../database/profile-blobs.repository.js";
+import { ProfileSnapshotsRepository } from "../database/profile-snapshots.repository.js";
+import { HydrationOutcomesRepository } from "../database/hydration-outcomes.repository.js";
 import { computeBlobHashes } from "../blobs/hasher.js";
-import { LocalBlobStorage } from "../blobs/storage/local.js";
-import { S3BlobStorage } from "../blobs/storage/s3.js";
+import { createBlobStorage } from "../blobs/storage/index.js";
 import { BlobStorage } from "../blobs/processor.js";
-import { pRateLimit } from "p-ratelimit";
-import { withRetry, isRateLimitError, isNetworkError, isServerError, isRecordNotFoundError } from "../utils/retry.js";
+import { withRetry, isRateLimitError, isNetworkError, isServerError } from "../utils/retry.js";
 import { logger } from "../logger/index.js";
-import { config } from "../config/index.js";
+import { didResolver } from "../identity/did-resolver.js";
+import { agentForDid } from "../identity/pds.js";
+import { IdentityService } from "../identity/identity.service.js";
+import {
+  HydrationPolicy,
+  defaultHydrationPolicy,
+  fetchesRecord,
+  hashesBlobs,
+  storesBlobs,
+  usesBlobStorage,
+} from "./policy.js";
+import { trackOutcome } from "./outcomes.js";
+import { HydrationRateLimit } from "./rate-limit.js";
 
 export class ProfileHydrationService {
-  private agent: AtpAgent;
+  private identity: IdentityService;
   private profilesRepo: ProfilesRepository;
   private profileBlobsRepo: ProfileBlobsRepository;
+  private snapshotsRepo: ProfileSnapshotsRepository;
+  private outcomesRepo: HydrationOutcomesRepository;
   private storage: BlobStorage | null = null;
-  private limit: ReturnType<typeof pRateLimit>;
+  private limit: HydrationRateLimit;
 
-  constructor(db: Database) {
-    this.agent = new AtpAgent({ service: `https://${config.bsky.pds}` });
+  constructor(db: Database, limit: HydrationRateLimit) {
+    this.identity = new IdentityService(db);
     this.profilesRepo = new ProfilesRepository(db);
     this.profileBlobsRepo = new ProfileBlobsRepository(db);
+    this.snapshotsRepo = new ProfileSnapshotsRepository(db);
+    this.outcomesRepo = new HydrationOutcomesRepository(db);
 
-    if (config.blobs.hydrateBlobs) {
-      if (config.blobs.storage.type === "s3") {
-        this.storage = new S3BlobStorage(
-          config.blobs.storage.s3Bucket!,
-          config.blobs.storage.s3Region!
-        );
-      } else {
-        this.storage = new LocalBlobStorage(
-          config.blobs.storage.localPath
-        );
-      }
+    if (usesBlobStorage()) {
+      this.storage = createBlobStorage();
     }
 
-    this.limit = pRateLimit({
-      interval: 300000,
-      rate: 3000,
-      concurrency: 48,
-      maxDelay: 60000,
-    });
+    this.limit = limit;
   }
 
-  async initialize(): Promise<void> {
-    try {
-      await this.agent.login({
-        identifier: config.bsky.handle,
-        password: config.bsky.password,
-      });
-      logger.info("Profile hydration service authenticated");
-    } catch (error) {
-      logger.error({ error }, "Failed to authenticate profile hydration service");
-      throw error;
+  /**
+   * Fetches the current profile on every call, labeled before or not, and
+   * records it in profile_snapshots so changes between labels are kept.
+   */
+  async hydrateProfile(
+    did: string,
+    policy: HydrationPolicy = defaultHydrationPolicy()
+  ): Promise<void> {
+    if (!fetchesRecord(policy)) {
+      logger.debug({ did }, "Hydration policy is none, skipping profile");
+      return;
     }
-  }
 
-  async hydrateProfile(did: string): Promise<void> {
     try {
-      const existingProfile = await this.profilesRepo.findByDid(did);
-      const needsRehydration = existingProfile && (existingProfile.avatar_cid === null || existingProfile.banner_cid === null);
+      const handle = (await this.identity.getHandle(did)) ?? undefined;
+
+      const { result: profileResponse, status } = await trackOutcome(
+        this.outcomesRepo,
+        { type: "profile", subject: did },
+        () =>
+          this.limit(() =>
+            withRetry(
+              async () => {
+                const agent = await agentForDid(did);
+                return await agent.com.atproto.repo.getRecord({
+                  repo: did,
+                  collection: "app.bsky.actor.profile",
+                  rkey: "self",
+                });
+              },
+              {
+                maxAttempts: 3,
+                initialDelay: 1000,
+                maxDelay: 10000,
+                backoffMultiplier: 2,
+                retryableErrors: [
+                  isRateLimitError,
+                  isNetworkError,
+                  isServerError,
+                ],
+              }
+            )
+          )
+      );
 
-      if (existingProfile && !needsRehydration) {
-        logger.debug({ did }, "Profile already fully hydrated, skipping");
+      if (!profileResponse) {
+        logger.warn({ did, status }, "Profile record unavailable, skipping");
         return;
       }
 
-      if (needsRehydration) {
-        logger.debug({ did }, "Re-hydrating profile to fetch avatar/banner CIDs");
-      }
-
-      const profileResponse = await this.limit(() =>
-        withRetry(
-          async () => {
-            return await this.agent.com.atproto.repo.getRecord({
-              repo: did,
-              collection: "app.bsky.actor.profile",
-              rkey: "self",
-            });
-          },
-          {
-            maxAttempts: 3,
-            initialDelay: 1000,
-            maxDelay: 10000,
-            backoffMultiplier: 2,
-            retryableErrors: [
-              isRateLimitError,
-              isNetworkError,
-              isServerError,
-            ],
-          }
-        )
-      );
-
       let displayName: string | undefined;
       let description: string | undefined;
       let avatarCid: string | undefined;
@@ -119,95 +120,45 @@ export class ProfileHydrationService {
         logger.debug({ did, avatarCid, bannerCid, hasAvatar: !!record.avatar, hasBanner: !!record.banner }, "Extracted CIDs from profile record");
       }
 
-      const profileLookup = await this.limit(() =>
-        withRetry(
-          async () => {
-            return await this.agent.getProfile({ actor: did });
-          },
-          {
-            maxAttempts: 3,
-            initialDelay: 1000,
-            maxDelay: 10000,
-            backoffMultiplier: 2,
-            retryableErrors: [
-              isRateLimitError,
-              isNetworkError,
-              isServerError,
-            ],
-          }
-        )
-      );
-
-      let handle: string | undefined;
-      if (profileLookup.success) {
-        handle = profileLookup.data.handle;
-      }
-
-      await this.profilesRepo.insert({
+      const profile = {
         did,
         handle,
         display_name: displayName,
         description,
         avatar_cid: avatarCid,
         banner_cid: bannerCid,
-      });
+      };
+      await this.profilesRepo.insert(profile);
+      await this.snapshotsRepo.insert(profile);
 
-      if (avatarCid && avatarCid !== "") {
+      if (avatarCid && avatarCid !== "" && hashesBlobs(policy)) {
         try {
-          await this.processProfileBlob(did, avatarCid, "avatar");
+          await this.processProfileBlob(did, avatarCid, "avatar", policy);
         } catch (error) {
           logger.warn({ error, did, avatarCid }, "Failed to process avatar blob");
         }
       }
 
-      if (bannerCid && bannerCid !== "") {
+      if (bannerCid && bannerCid !== "" && hashesBlobs(policy)) {
         try {
-          await this.processProfileBlob(did, bannerCid, "banner");
+          await this.processProfileBlob(did, bannerCid, "banner", policy);
         } catch (error) {
           logger.warn({ error, did, bannerCid }, "Failed to process banner blob");
         }
       }
 
-      logger.info({ did, handle, avatarCid, bannerCid }, "Profile hydrated successfully");
+      logger.info({ did, handle, avatarCid, bannerCid, policy }, "Profile hydrated successfully");
     } catch (error) {
-      if (isRecordNotFoundError(error)) {
-        logger.warn({ did }, "Profile record not found, skipping");
-        return;
-      }
       logger.error({ error, did }, "Failed to hydrate profile");
       throw error;
     }
   }
 
-  private async resolvePds(did: string): Promise<string | null> {
-    try {
-      const didDocResponse = await fetch(`${config.plc.endpoint}/${did}`);
-      if (!didDocResponse.ok) {
-        logger.warn({ did, status: didDocResponse.status }, "Failed to fetch DID document");
-        return null;
-      }
-
-      const didDoc = await didDocResponse.json();
-      const pdsService = didDoc.service?.find((s: any) =>
-        s.id === "#atproto_pds" && s.type === "AtprotoPersonalDataServer"
-      );
-
-      if (!pdsService?.serviceEndpoint) {
-        logger.warn({ did }, "No PDS endpoint found in DID document");
-        return null;
-      }
-
-      return pdsService.serviceEndpoint;
-    } catch (error) {
-      logger.error({ error, did }, "Failed to resolve PDS from DID");
-      return null;
-    }
-  }
-
   private async processProfileBlob(
     did: string,
     cid: string,
-    type: "avatar" | "banner"
+    type: "avatar" | "banner",
+    policy: HydrationPolicy
   ): Promise<void> {
     const latestBlob = await this.profileBlobsRepo.findLatestByDidAndType(did, type);
 
@@ -216,7 +167,7 @@ export class ProfileHydrationService {
       return;
     }
 
-    const pdsEndpoint = await this.resolvePds(did);
+    const pdsEndpoint = await didResolver.resolvePds(did);
     if (!pdsEndpoint) {
       logger.warn({ did, cid, type }, "Cannot fetch blob without PDS endpoint");
       return;
@@ -233,7 +184,7 @@ export class ProfileHydrationService {
     const blobData = Buffer.from(await blobResponse.arrayBuffer());
 
     let storagePath: string | undefined;
-    if (this.storage && config.blobs.hydrateBlobs) {
+    if (this.storage && storesBlobs(policy)) {
       storagePath = await this.storage.store(cid, blobData, "image/jpeg");
     }
 
@@ -245,6 +196,9 @@ export class ProfileHydrationService {
       blob_cid: cid,
       sha256: hashes.sha256,
       phash: hashes.phash,
+      dct_phash: hashes.dctPhash,
+      pdq: hashes.pdq,
+      pdq_quality: hashes.pdqQuality,
       storage_path: storagePath,
       mimetype: "image/jpeg",
     });
@@ -1,15 +1,79 @@
 import { EventEmitter } from "events";
+import {
+  HydrationTasksRepository,
+  HydrationTaskType,
+} from "../database/hydration-tasks.repository.js";
 import { logger } from "../logger/index.js";
 
 export interface HydrationTask {
-  type: "post" | "profile";
+  type: HydrationTaskType;
   identifier: string;
 }
 
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 30000;
+const MAX_RETRY_DELAY = 3600000;
+
+export type HydrationHandler = (task: HydrationTask) => Promise<void>;
+
+function taskKey(task: HydrationTask): string {
+  return `${task.type}:${task.identifier}`;
+}
+
 export class HydrationQueue extends EventEmitter {
   private queue: HydrationTask[] = [];
-  private processing = false;
-  private processingTask: HydrationTask | null = null;
+  private inFlight = new Map<string, HydrationTask>();
+  private handler: HydrationHandler | null = null;
+  private attempts = new Map<string, number>();
+  private retryTimers = new Map<string, NodeJS.Timeout>();
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  constructor(
+    private store: HydrationTasksRepository | null = null,
+    private concurrency = 1
+  ) {
+    super();
+  }
+
+  /**
+   * Starts workers that run tasks through the handler, up to the configured
+   * concurrency. A task only counts as done once its handler resolves.
+   */
+  process(handler: HydrationHandler): void {
+    this.handler = handler;
+    this.drain();
+  }
+
+  /**
+   * Loads tasks left pending or in flight by a previous run. Tasks that were
+   * in flight when the process stopped are retried.
+   */
+  async resume(): Promise<void> {
+    if (!this.store) return;
+
+    const tasks = await this.store.findUnfinished();
+    const now = Date.now();
+
+    for (const record of tasks) {
+      const task: HydrationTask = {
+        type: record.type,
+        identifier: record.identifier,
+      };
+      this.attempts.set(taskKey(task), record.attempts);
+
+      const delay = record.next_attempt_at
+        ? new Date(record.next_attempt_at).getTime() - now
+        : 0;
+
+      if (delay > 0) {
+        this.scheduleRetry(task, delay);
+      } else {
+        this.push(task);
+      }
+    }
+
+    logger.info({ count: tasks.length }, "Resumed unfinished hydration tasks");
+  }
 
   enqueue(task: HydrationTask): void {
     const isDuplicate = this.queue.some(
@@ -24,10 +88,7 @@ export class HydrationQueue extends EventEmitter {
       return;
     }
 
-    if (
-      this.processingTask?.type === task.type &&
-      this.processingTask?.identifier === task.identifier
-    ) {
+    if (this.inFlight.has(taskKey(task))) {
       logger.debug(
         { type: task.type, identifier: task.identifier },
         "Task already being processed"
@@ -35,51 +96,151 @@ export class HydrationQueue extends EventEmitter {
       return;
     }
 
+    if (this.retryTimers.has(taskKey(task))) {
+      logger.debug(
+        { type: task.type, identifier: task.identifier },
+        "Task already scheduled for retry"
+      );
+      return;
+    }
+
+    this.persist((store) => store.enqueue(task));
+    this.push(task);
+  }
+
+  private complete(task: HydrationTask): void {
+    this.attempts.delete(taskKey(task));
+    this.persist((store) => store.markDone(task));
+  }
+
+  private fail(task: HydrationTask, error: unknown): void {
+    const key = taskKey(task);
+    const attempts = this.attempts.get(key) ?? 1;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= MAX_ATTEMPTS) {
+      this.attempts.delete(key);
+      this.persist((store) => store.markFailed(task, message, null));
+      logger.error(
+        { type: task.type, identifier: task.identifier, attempts },
+        "Hydration task failed permanently"
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      BASE_RETRY_DELAY * Math.pow(2, attempts - 1),
+      MAX_RETRY_DELAY
+    );
+    this.persist((store) =>
+      store.markFailed(task, message, new Date(Date.now() + delay))
+    );
+    this.scheduleRetry(task, delay);
+  }
+
+  private push(task: HydrationTask): void {
     this.queue.push(task);
     logger.debug(
       { type: task.type, identifier: task.identifier, queueSize: this.queue.length },
       "Task enqueued"
     );
 
-    if (!this.processing) {
-      this.processNext();
-    }
+    this.drain();
   }
 
-  private async processNext(): Promise<void> {
-    if (this.queue.length === 0) {
-      this.processing = false;
-      return;
+  private scheduleRetry(task: HydrationTask, delay: number): void {
+    const key = taskKey(task);
+
+    logger.debug(
+      { type: task.type, identifier: task.identifier, delay },
+      "Scheduling hydration retry"
+    );
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(key);
+      this.push(task);
+    }, delay);
+    timer.unref();
+
+    this.retryTimers.set(key, timer);
+  }
+
+  private persist(
+    write: (store: HydrationTasksRepository) => Promise<void>
+  ): void {
+    const store = this.store;
+    if (!store) return;
+
+    this.pendingWrites = this.pendingWrites
+      .then(() => write(store))
+      .catch((error) => {
+        logger.error({ error }, "Failed to persist hydration task state");
+      });
+  }
+
+  private drain(): void {
+    if (!this.handler) return;
+
+    while (this.inFlight.size < this.concurrency && this.queue.length > 0) {
+      this.run(this.queue.shift()!);
     }
+  }
 
-    this.processing = true;
-    this.processingTask = this.queue.shift()!;
+  private async run(task: HydrationTask): Promise<void> {
+    const key = taskKey(task);
+    this.inFlight.set(key, task);
+    this.attempts.set(key, (this.attempts.get(key) ?? 0) + 1);
+    this.persist((store) => store.markInFlight(task));
 
     logger.debug(
       {
-        type: this.processingTask.type,
-        identifier: this.processingTask.identifier,
+        type: task.type,
+        identifier: task.identifier,
+        inFlight: this.inFlight.size,
         remaining: this.queue.length,
       },
       "Processing task"
     );
 
-    this.emit("task", this.processingTask);
+    this.emit("task", task);
 
-    setTimeout(() => {
-      this.processingTask = null;
-      this.processNext();
-    }, 100);
+    try {
+      await this.handler!(task);
+      this.complete(task);
+    } catch (error) {
+      logger.error({ error, task }, "Hydration task failed");
+      this.fail(task, error);
+    } finally {
+      this.inFlight.delete(key);
+      this.drain();
+    }
   }
 
   getQueueSize(): number {
     return this.queue.length;
   }
 
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Waits for queued task state changes to reach the database.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+  }
+
+  /**
+   * Drops in-memory work only; persisted tasks are picked up again by
+   * resume() on the next start.
+   */
   clear(): void {
     this.queue = [];
-    this.processing = false;
-    this.processingTask = null;
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
     logger.info("Hydration queue cleared");
   }
 }
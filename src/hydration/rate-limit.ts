@@ -0,0 +1,17 @@
+import { pRateLimit } from "p-ratelimit";
+
+export type HydrationRateLimit = ReturnType<typeof pRateLimit>;
+
+/**
+ * The budget of PDS requests for all hydration. Create one per process and
+ * share it between the post, profile and record services, so together they
+ * stay within it; concurrency follows the number of hydration workers.
+ */
+export function createHydrationRateLimit(concurrency: number): HydrationRateLimit {
+  return pRateLimit({
+    interval: 300000,
+    rate: 3000,
+    concurrency,
+    maxDelay: 60000,
+  });
+}
@@ -0,0 +1,97 @@
+import { config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+import { HydrationOutcomesRepository } from "../database/hydration-outcomes.repository.js";
+import { PostHydrationService } from "./posts.service.js";
+
+export interface RecheckSummary {
+  checked: number;
+  available: number;
+  gone: number;
+  failed: number;
+}
+
+/**
+ * Periodically fetches labeled posts again to find the ones deleted, taken
+ * down or deactivated after they were captured. Every check is recorded in
+ * hydration_outcomes; posts found deleted are not checked again.
+ */
+export class PostRecheckJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RecheckSummary> | null = null;
+
+  constructor(
+    private posts: PostHydrationService,
+    private outcomes: HydrationOutcomesRepository,
+    private options: typeof config.recheck = config.recheck
+  ) {}
+
+  start(): void {
+    if (this.timer || this.options.interval === 0) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => {
+        logger.error({ error }, "Post re-check failed");
+      });
+    }, this.options.interval);
+    this.timer.unref();
+
+    logger.info(
+      { interval: this.options.interval, batchSize: this.options.batchSize },
+      "Post re-check scheduled"
+    );
+  }
+
+  /**
+   * Stops scheduling runs and waits for the current one to finish.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * Checks one batch of posts due for a re-check. A run started while
+   * another is in progress shares its result.
+   */
+  run(): Promise<RecheckSummary> {
+    if (!this.running) {
+      this.running = this.checkBatch().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async checkBatch(): Promise<RecheckSummary> {
+    const uris = await this.outcomes.findPostsDueForRecheck(
+      this.options.minAge,
+      this.options.batchSize
+    );
+    const summary: RecheckSummary = {
+      checked: uris.length,
+      available: 0,
+      gone: 0,
+      failed: 0,
+    };
+
+    for (const uri of uris) {
+      const status = await this.posts.recheckPost(uri);
+      if (status === "ok") {
+        summary.available++;
+      } else if (status === "error") {
+        summary.failed++;
+      } else {
+        summary.gone++;
+        logger.info({ uri, status }, "Labeled post no longer available");
+      }
+    }
+
+    if (uris.length > 0) {
+      logger.info(summary, "Post re-check completed");
+    }
+    return summary;
+  }
+}
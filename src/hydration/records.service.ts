@@ -0,0 +1,174 @@
+import { Database } from "duckdb";
+import { ListsRepository } from "../database/lists.repository.js";
+import { FeedGeneratorsRepository } from "../database/feed-generators.repository.js";
+import { StarterPacksRepository } from "../database/starter-packs.repository.js";
+import { HydrationOutcomesRepository } from "../database/hydration-outcomes.repository.js";
+import { withRetry, isRateLimitError, isNetworkError, isServerError } from "../utils/retry.js";
+import { logger } from "../logger/index.js";
+import { agentForDid } from "../identity/pds.js";
+import {
+  HydrationPolicy,
+  defaultHydrationPolicy,
+  fetchesRecord,
+} from "./policy.js";
+import { taskTypeForCollection } from "./routing.js";
+import { trackOutcome } from "./outcomes.js";
+import { HydrationRateLimit } from "./rate-limit.js";
+
+/**
+ * Hydrates labeled lists, feed generators and starter packs into their own
+ * tables. Only the records are stored; their avatars are kept as CIDs.
+ */
+export class RecordHydrationService {
+  private listsRepo: ListsRepository;
+  private feedGeneratorsRepo: FeedGeneratorsRepository;
+  private starterPacksRepo: StarterPacksRepository;
+  private outcomesRepo: HydrationOutcomesRepository;
+  private limit: HydrationRateLimit;
+
+  constructor(db: Database, limit: HydrationRateLimit) {
+    this.listsRepo = new ListsRepository(db);
+    this.feedGeneratorsRepo = new FeedGeneratorsRepository(db);
+    this.starterPacksRepo = new StarterPacksRepository(db);
+    this.outcomesRepo = new HydrationOutcomesRepository(db);
+    this.limit = limit;
+  }
+
+  async hydrateRecord(
+    uri: string,
+    policy: HydrationPolicy = defaultHydrationPolicy()
+  ): Promise<void> {
+    if (!fetchesRecord(policy)) {
+      logger.debug({ uri }, "Hydration policy is none, skipping record");
+      return;
+    }
+
+    const uriParts = uri.replace("at://", "").split("/");
+    if (uriParts.length !== 3) {
+      logger.warn({ uri }, "Invalid record URI format");
+      return;
+    }
+
+    const [did, collection, rkey] = uriParts;
+    const type = taskTypeForCollection(collection);
+    if (!type) {
+      logger.warn({ uri, collection }, "No hydrator for record collection");
+      return;
+    }
+
+    try {
+      if (await this.isHydrated(uri, collection)) {
+        logger.debug({ uri }, "Record already hydrated, skipping");
+        return;
+      }
+
+      const { result: response, status } = await trackOutcome(
+        this.outcomesRepo,
+        { type, subject: uri },
+        () =>
+          this.limit(() =>
+            withRetry(
+              async () => {
+                const agent = await agentForDid(did);
+                return await agent.com.atproto.repo.getRecord({
+                  repo: did,
+                  collection,
+                  rkey,
+                });
+              },
+              {
+                maxAttempts: 3,
+                initialDelay: 1000,
+                maxDelay: 10000,
+                backoffMultiplier: 2,
+                retryableErrors: [
+                  isRateLimitError,
+                  isNetworkError,
+                  isServerError,
+                ],
+              }
+            )
+          )
+      );
+
+      if (!response) {
+        logger.warn({ uri, status }, "Record unavailable, skipping");
+        return;
+      }
+
+      if (!response.success || !response.data.value) {
+        logger.warn({ uri }, "Failed to fetch record");
+        return;
+      }
+
+      await this.store(uri, did, collection, response.data.value as any);
+
+      logger.info({ uri, collection }, "Record hydrated successfully");
+    } catch (error) {
+      logger.error({ error, uri }, "Failed to hydrate record");
+      throw error;
+    }
+  }
+
+  private async isHydrated(uri: string, collection: string): Promise<boolean> {
+    switch (collection) {
+      case "app.bsky.graph.list":
+        return (await this.listsRepo.findByUri(uri)) !== null;
+      case "app.bsky.feed.generator":
+        return (await this.feedGeneratorsRepo.findByUri(uri)) !== null;
+      case "app.bsky.graph.starterpack":
+        return (await this.starterPacksRepo.findByUri(uri)) !== null;
+      default:
+        return false;
+    }
+  }
+
+  private async store(
+    uri: string,
+    did: string,
+    collection: string,
+    record: any
+  ): Promise<void> {
+    const avatarCid = record.avatar?.ref ? record.avatar.ref.toString() : undefined;
+
+    switch (collection) {
+      case "app.bsky.graph.list":
+        await this.listsRepo.insert({
+          uri,
+          did,
+          name: record.name,
+          purpose: record.purpose,
+          description: record.description,
+          avatar_cid: avatarCid,
+          created_at: record.createdAt,
+        });
+        break;
+      case "app.bsky.feed.generator":
+        await this.feedGeneratorsRepo.insert({
+          uri,
+          did,
+          service_did: record.did,
+          display_name: record.displayName,
+          description: record.description,
+          avatar_cid: avatarCid,
+          created_at: record.createdAt,
+        });
+        break;
+      case "app.bsky.graph.starterpack":
+        await this.starterPacksRepo.insert({
+          uri,
+          did,
+          name: record.name,
+          description: record.description,
+          list_uri: record.list,
+          feeds: Array.isArray(record.feeds)
+            ? record.feeds.map((feed: any) => feed.uri).filter(Boolean)
+            : undefined,
+          created_at: record.createdAt,
+        });
+        break;
+      default:
+        logger.warn({ uri, collection }, "No hydrator for record collection");
+    }
+  }
+}
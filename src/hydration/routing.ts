@@ -0,0 +1,43 @@
+import { HydrationTask } from "./queue.js";
+
+// Record collections with a hydrator, by the task type that handles them
+export const COLLECTION_TASK_TYPES: Record<string, HydrationTask["type"]> = {
+  "app.bsky.feed.post": "post",
+  "app.bsky.graph.list": "list",
+  "app.bsky.feed.generator": "feedgen",
+  "app.bsky.graph.starterpack": "starterpack",
+};
+
+export function taskTypeForCollection(
+  collection: string
+): HydrationTask["type"] | null {
+  return COLLECTION_TASK_TYPES[collection] ?? null;
+}
+
+export function taskForLabelUri(uri: string): HydrationTask | null {
+  if (uri.startsWith("at://")) {
+    const uriParts = uri.replace("at://", "").split("/");
+
+    if (uriParts.length === 3) {
+      const [did, collection] = uriParts;
+
+      // A label on the profile record applies to the account
+      if (collection === "app.bsky.actor.profile") {
+        return { type: "profile", identifier: did };
+      }
+
+      const type = taskTypeForCollection(collection);
+      return type ? { type, identifier: uri } : null;
+    }
+    if (uriParts.length === 1) {
+      return { type: "profile", identifier: uri.replace("at://", "") };
+    }
+    return null;
+  }
+
+  if (uri.startsWith("did:")) {
+    return { type: "profile", identifier: uri };
+  }
+
+  return null;
+}
@@ -0,0 +1,165 @@
+import { config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+
+export interface VerificationMethod {
+  id: string;
+  type: string;
+  controller?: string;
+  publicKeyMultibase?: string;
+}
+
+export interface DidService {
+  id: string;
+  type: string;
+  serviceEndpoint: string;
+}
+
+export interface DidDocument {
+  id: string;
+  alsoKnownAs?: string[];
+  verificationMethod?: VerificationMethod[];
+  service?: DidService[];
+}
+
+interface CachedDocument {
+  doc: DidDocument;
+  expiresAt: number;
+}
+
+/**
+ * Where a did:web document lives: did:web:example.com maps to
+ * https://example.com/.well-known/did.json, and extra colon-separated
+ * segments become the path.
+ */
+export function didWebDocumentUrl(did: string): string {
+  const [host, ...path] = did
+    .slice("did:web:".length)
+    .split(":")
+    .map(decodeURIComponent);
+
+  return path.length > 0
+    ? `https://${host}/${path.join("/")}/did.json`
+    : `https://${host}/.well-known/did.json`;
+}
+
+// Service and key ids may be relative (#atproto_pds) or absolute
+function matchesId(id: string, did: string, fragment: string): boolean {
+  return id === fragment || id === `${did}${fragment}`;
+}
+
+/**
+ * The #atproto_pds service endpoint of a document, without a trailing
+ * slash.
+ */
+export function pdsEndpointFromDocument(doc: DidDocument): string | null {
+  const service = doc.service?.find(
+    (s) =>
+      matchesId(s.id, doc.id, "#atproto_pds") &&
+      s.type === "AtprotoPersonalDataServer"
+  );
+  return service?.serviceEndpoint?.replace(/\/+$/, "") || null;
+}
+
+/**
+ * Resolves did:plc documents through the PLC directory and did:web
+ * documents from the domain, caching them for the configured TTL.
+ * Concurrent lookups of the same DID share one request.
+ */
+export class DidResolver {
+  private cache = new Map<string, CachedDocument>();
+  private inFlight = new Map<string, Promise<DidDocument | null>>();
+
+  constructor(
+    private plcEndpoint: string = config.plc.endpoint,
+    private ttl: number = config.plc.cacheTtl
+  ) {}
+
+  /**
+   * Returns the DID document, or null when it cannot be resolved. Pass
+   * refresh to bypass the cache, e.g. after a key rotation.
+   */
+  async resolve(did: string, refresh = false): Promise<DidDocument | null> {
+    const cached = this.cache.get(did);
+    if (!refresh && cached && cached.expiresAt > Date.now()) {
+      return cached.doc;
+    }
+
+    const pending = this.inFlight.get(did);
+    if (pending) return pending;
+
+    const request = this.fetchDocument(did).finally(() =>
+      this.inFlight.delete(did)
+    );
+    this.inFlight.set(did, request);
+
+    const doc = await request;
+    if (doc) {
+      this.cache.set(did, { doc, expiresAt: Date.now() + this.ttl });
+    }
+    return doc;
+  }
+
+  /**
+   * The account's PDS endpoint, without a trailing slash.
+   */
+  async resolvePds(did: string): Promise<string | null> {
+    const doc = await this.resolve(did);
+    if (!doc) return null;
+
+    const endpoint = pdsEndpointFromDocument(doc);
+    if (!endpoint) {
+      logger.warn({ did }, "No PDS endpoint found in DID document");
+    }
+    return endpoint;
+  }
+
+  /**
+   * Finds a verification method by fragment, e.g. #atproto_label.
+   */
+  findVerificationMethod(
+    doc: DidDocument,
+    fragment: string
+  ): VerificationMethod | null {
+    return (
+      doc.verificationMethod?.find((m) => matchesId(m.id, doc.id, fragment)) ??
+      null
+    );
+  }
+
+  private async fetchDocument(did: string): Promise<DidDocument | null> {
+    let url: string;
+    if (did.startsWith("did:plc:")) {
+      url = `${this.plcEndpoint}/${did}`;
+    } else if (did.startsWith("did:web:")) {
+      url = didWebDocumentUrl(did);
+    } else {
+      logger.warn({ did }, "Unsupported DID method");
+      return null;
+    }
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        logger.warn(
+          { did, status: response.status },
+          "Failed to fetch DID document"
+        );
+        return null;
+      }
+
+      const doc = (await response.json()) as DidDocument;
+      if (doc?.id !== did) {
+        logger.warn({ did, id: doc?.id }, "DID document id does not match");
+        return null;
+      }
+
+      return doc;
+    } catch (error) {
+      logger.error({ error, did }, "Failed to resolve DID document");
+      return null;
+    }
+  }
+}
+
+// Shared by the hydration services so each account is resolved once per TTL
+export const didResolver = new DidResolver();
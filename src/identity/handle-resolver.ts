@@ -0,0 +1,66 @@
+import { promises as dns } from "dns";
+import { logger } from "../logger/index.js";
+
+const HANDLE_REGEX =
+  /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+
+export function isValidHandle(handle: string): boolean {
+  return handle.length <= 253 && HANDLE_REGEX.test(handle);
+}
+
+/**
+ * The handle an account claims in its DID document, i.e. the first
+ * at:// entry of alsoKnownAs. The claim alone proves nothing; the handle
+ * has to resolve back to the DID.
+ */
+export function claimedHandle(alsoKnownAs: string[] | undefined): string | null {
+  const aka = alsoKnownAs?.find((entry) => entry.startsWith("at://"));
+  if (!aka) return null;
+
+  const handle = aka.slice("at://".length).toLowerCase();
+  return isValidHandle(handle) ? handle : null;
+}
+
+async function resolveDns(handle: string): Promise<string | null> {
+  try {
+    const records = await dns.resolveTxt(`_atproto.${handle}`);
+    const dids = records
+      .map((chunks) => chunks.join(""))
+      .filter((record) => record.startsWith("did="))
+      .map((record) => record.slice("did=".length));
+
+    // Several conflicting records make the handle ambiguous
+    return dids.length === 1 ? dids[0] : null;
+  } catch {
+    return null;
+  }
+}
+
+async function resolveWellKnown(handle: string): Promise<string | null> {
+  try {
+    const response = await fetch(`https://${handle}/.well-known/atproto-did`, {
+      redirect: "error",
+    });
+    if (!response.ok) return null;
+
+    const did = (await response.text()).trim();
+    return did.startsWith("did:") ? did : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves a handle to a DID through the _atproto DNS TXT record, falling
+ * back to https://<handle>/.well-known/atproto-did. Returns null when
+ * neither method yields a DID.
+ */
+export async function resolveHandle(handle: string): Promise<string | null> {
+  const normalized = handle.toLowerCase();
+  if (!isValidHandle(normalized)) {
+    logger.debug({ handle }, "Not a valid handle");
+    return null;
+  }
+
+  return (await resolveDns(normalized)) ?? (await resolveWellKnown(normalized));
+}
@@ -0,0 +1,134 @@
+import { Database } from "duckdb";
+import { config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+import {
+  IdentitiesRepository,
+  Identity,
+} from "../database/identities.repository.js";
+import { HandleHistoryRepository } from "../database/handle-history.repository.js";
+import {
+  DidResolver,
+  didResolver,
+  pdsEndpointFromDocument,
+} from "./did-resolver.js";
+import { claimedHandle, resolveHandle } from "./handle-resolver.js";
+
+export type HandleResolver = (handle: string) => Promise<string | null>;
+
+/**
+ * Account identities backed by the identities table. A handle only counts
+ * as verified when the DID document claims it and the handle resolves back
+ * to the same DID; every handle an account claims is kept in
+ * handle_history, verified or not.
+ */
+export class IdentityService {
+  private identities: IdentitiesRepository;
+  private handleHistory: HandleHistoryRepository;
+  private inFlight = new Map<string, Promise<Identity | null>>();
+
+  constructor(
+    db: Database,
+    private resolver: DidResolver = didResolver,
+    private handleResolver: HandleResolver = resolveHandle,
+    private ttl: number = config.identity.cacheTtl
+  ) {
+    this.identities = new IdentitiesRepository(db);
+    this.handleHistory = new HandleHistoryRepository(db);
+  }
+
+  /**
+   * Returns the stored identity while it is younger than the TTL, and
+   * re-resolves it otherwise. Pass refresh to re-resolve regardless. When
+   * the DID cannot be resolved the last stored identity, if any, is
+   * returned.
+   */
+  async getIdentity(did: string, refresh = false): Promise<Identity | null> {
+    const stored = await this.identities.findByDid(did);
+    if (
+      !refresh &&
+      stored?.resolved_at &&
+      new Date(stored.resolved_at).getTime() + this.ttl > Date.now()
+    ) {
+      return stored;
+    }
+
+    const pending = this.inFlight.get(did);
+    if (pending) return pending;
+
+    const request = this.resolveIdentity(did, stored, refresh).finally(() =>
+      this.inFlight.delete(did)
+    );
+    this.inFlight.set(did, request);
+    return request;
+  }
+
+  /**
+   * The verified handle of an account, or null when it has none.
+   */
+  async getHandle(did: string): Promise<string | null> {
+    const identity = await this.getIdentity(did);
+    return identity?.handle_verified ? identity.handle ?? null : null;
+  }
+
+  /**
+   * Resolves a handle to the DID that verifiably owns it: the handle has to
+   * point at the DID and the DID document has to claim the handle.
+   */
+  async resolveHandle(handle: string): Promise<string | null> {
+    const normalized = handle.toLowerCase();
+    const did = await this.handleResolver(normalized);
+    if (!did) return null;
+
+    let identity = await this.getIdentity(did);
+    if (identity?.handle !== normalized) {
+      // The account may have moved to this handle since it was stored
+      identity = await this.getIdentity(did, true);
+    }
+
+    return identity?.handle === normalized && identity.handle_verified
+      ? did
+      : null;
+  }
+
+  private async resolveIdentity(
+    did: string,
+    stored: Identity | null,
+    refresh: boolean
+  ): Promise<Identity | null> {
+    const doc = await this.resolver.resolve(did, refresh);
+    if (!doc) {
+      if (stored) {
+        logger.warn({ did }, "Could not resolve DID, keeping stored identity");
+      }
+      return stored;
+    }
+
+    const handle = claimedHandle(doc.alsoKnownAs);
+    const handleVerified = handle
+      ? (await this.handleResolver(handle)) === did
+      : false;
+
+    const identity: Identity = {
+      did,
+      handle,
+      handle_verified: handleVerified,
+      pds: pdsEndpointFromDocument(doc),
+    };
+
+    if (handle) {
+      await this.handleHistory.record(did, handle, handleVerified);
+    }
+    await this.identities.upsert(identity);
+
+    if (stored?.handle && stored.handle !== handle) {
+      logger.info(
+        { did, previousHandle: stored.handle, handle, handleVerified },
+        "Account handle changed"
+      );
+    } else if (handle && !handleVerified) {
+      logger.debug({ did, handle }, "Handle does not resolve to its DID");
+    }
+
+    return { ...identity, resolved_at: new Date() };
+  }
+}
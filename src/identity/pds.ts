@@ -0,0 +1,35 @@
+import { AtpAgent } from "@atproto/api";
+import { config } from "../config/index.js";
+import { logger } from "../logger/index.js";
+import { didResolver } from "./did-resolver.js";
+
+const agents = new Map<string, AtpAgent>();
+
+/**
+ * The PDS hosting an account's repo. Falls back to the configured PDS when
+ * the DID cannot be resolved, which only works for accounts it hosts.
+ */
+export async function pdsEndpointForDid(did: string): Promise<string> {
+  const endpoint = await didResolver.resolvePds(did);
+  if (endpoint) {
+    return endpoint;
+  }
+
+  logger.warn({ did, pds: config.bsky.pds }, "Falling back to configured PDS");
+  return `https://${config.bsky.pds}`;
+}
+
+/**
+ * An unauthenticated agent for reading records from the account's PDS.
+ * Agents are shared per endpoint.
+ */
+export async function agentForDid(did: string): Promise<AtpAgent> {
+  const endpoint = await pdsEndpointForDid(did);
+
+  let agent = agents.get(endpoint);
+  if (!agent) {
+    agent = new AtpAgent({ service: endpoint });
+    agents.set(endpoint, agent);
+  }
+  return agent;
+}
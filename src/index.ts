@@ -1,4 +1,5 @@
 import { config } from "./config/index.js";
+import { reloadConfig, watchConfig } from "./config/reload.js";
 import { logger } from "./logger/index.js";
 import {
   initializeDatabase,
@@ -6,11 +7,27 @@ import {
   getDatabase,
 } from "./database/connection.js";
 import { initializeSchema } from "./database/schema.js";
-import { LabelsRepository } from "./database/labels.repository.js";
+import { HydrationTasksRepository } from "./database/hydration-tasks.repository.js";
+import { SubscriptionStateRepository } from "./database/subscription-state.repository.js";
+import { FirehoseEventsRepository } from "./database/firehose-events.repository.js";
+import { FirehoseGapsRepository } from "./database/firehose-gaps.repository.js";
+import { HydrationOutcomesRepository } from "./database/hydration-outcomes.repository.js";
 import { FirehoseSubscriber } from "./firehose/subscriber.js";
+import { CaptureRecorder } from "./firehose/capture.js";
 import { PostHydrationService } from "./hydration/posts.service.js";
 import { ProfileHydrationService } from "./hydration/profiles.service.js";
+import { RecordHydrationService } from "./hydration/records.service.js";
 import { HydrationQueue } from "./hydration/queue.js";
+import { PostRecheckJob } from "./hydration/recheck.js";
+import { createHydrationRateLimit } from "./hydration/rate-limit.js";
+import { taskForLabelUri } from "./hydration/routing.js";
+import {
+  HydrationPolicyResolver,
+  policyForLabel,
+} from "./hydration/policy.js";
+import { LabelsRepository } from "./database/labels.repository.js";
+import { startApiServer } from "./api/server.js";
+import * as path from "path";
 
 async function main() {
   logger.info("Starting Skywatch Tail...");
@@ -20,98 +37,149 @@ async function main() {
     await initializeSchema();
 
     const db = getDatabase();
-    const labelsRepo = new LabelsRepository(db);
 
-    const postHydration = new PostHydrationService(db);
-    const profileHydration = new ProfileHydrationService(db);
-    const hydrationQueue = new HydrationQueue();
-
-    await postHydration.initialize();
-    await profileHydration.initialize();
-
-    hydrationQueue.on("task", async (task) => {
-      try {
-        if (task.type === "post") {
-          await postHydration.hydratePost(task.identifier);
-        } else if (task.type === "profile") {
-          await profileHydration.hydrateProfile(task.identifier);
-        }
-      } catch (error) {
-        logger.error({ error, task }, "Hydration task failed");
+    const hydrationLimit = createHydrationRateLimit(config.hydration.concurrency);
+    const postHydration = new PostHydrationService(db, hydrationLimit);
+    const profileHydration = new ProfileHydrationService(db, hydrationLimit);
+    const recordHydration = new RecordHydrationService(db, hydrationLimit);
+    const hydrationQueue = new HydrationQueue(
+      new HydrationTasksRepository(db),
+      config.hydration.concurrency
+    );
+
+    const policies = new HydrationPolicyResolver(new LabelsRepository(db));
+
+    hydrationQueue.process(async (task) => {
+      const policy = await policies.resolve(task);
+      if (task.type === "post") {
+        await postHydration.hydratePost(task.identifier, policy);
+      } else if (task.type === "profile") {
+        await profileHydration.hydrateProfile(task.identifier, policy);
+      } else {
+        await recordHydration.hydrateRecord(task.identifier, policy);
       }
     });
 
-    const subscriber = new FirehoseSubscriber();
+    await hydrationQueue.resume();
+
+    const recheck = new PostRecheckJob(
+      postHydration,
+      new HydrationOutcomesRepository(db)
+    );
+    recheck.start();
+
+    const firehoseEvents = new FirehoseEventsRepository(db);
+    const firehoseGaps = new FirehoseGapsRepository(db);
+    const subscribers = config.labeler.wssUrls.map(
+      (url) =>
+        new FirehoseSubscriber(
+          url,
+          new SubscriptionStateRepository(db),
+          firehoseEvents,
+          firehoseGaps
+        )
+    );
+
+    const recorders: CaptureRecorder[] = [];
+
+    for (const [index, subscriber] of subscribers.entries()) {
+      const { subscription } = subscriber;
+
+      if (config.labeler.captureDir) {
+        const startedAt = new Date().toISOString();
+        const file = path.join(
+          config.labeler.captureDir,
+          `${subscription}-${startedAt.replace(/[:.]/g, "-")}.cap`
+        );
+        const recorder = new CaptureRecorder(file, {
+          url: config.labeler.wssUrls[index],
+          startedAt,
+        });
+        subscriber.on("frame", (data) => recorder.append(data));
+        recorders.push(recorder);
+        logger.info({ subscription, file }, "Recording firehose frames");
+      }
 
-    subscriber.on("label", async (label) => {
-      try {
-        logger.info({ uri: label.uri, val: label.val }, "Received label");
+      // Emitted once the label's batch has been committed
+      subscriber.on("label", (label, sigStatus) => {
+        logger.info(
+          { uri: label.uri, val: label.val, sigStatus, subscription },
+          "Label stored"
+        );
 
-        await labelsRepo.insert({
-          uri: label.uri,
-          cid: label.cid,
-          val: label.val,
-          neg: label.neg || false,
-          cts: label.cts,
-          exp: label.exp,
-          src: label.src,
-        });
+        if (sigStatus !== null && sigStatus !== "valid") {
+          logger.debug({ uri: label.uri }, "Label quarantined, skipping hydration");
+          return;
+        }
 
-        logger.debug({ uri: label.uri }, "Label stored");
-
-        if (label.uri.startsWith("at://")) {
-          const uriParts = label.uri.replace("at://", "").split("/");
-
-          if (uriParts.length === 3) {
-            hydrationQueue.enqueue({
-              type: "post",
-              identifier: label.uri,
-            });
-          } else if (uriParts.length === 1) {
-            hydrationQueue.enqueue({
-              type: "profile",
-              identifier: label.uri.replace("at://", ""),
-            });
-          }
-        } else if (label.uri.startsWith("did:")) {
-          hydrationQueue.enqueue({
-            type: "profile",
-            identifier: label.uri,
-          });
+        if (policyForLabel(label.val) === "none") {
+          logger.debug(
+            { uri: label.uri, val: label.val },
+            "Hydration policy is none, skipping hydration"
+          );
+          return;
         }
-      } catch (error) {
-        logger.error({ error, label }, "Failed to process label");
-      }
-    });
 
-    subscriber.on("error", (error) => {
-      logger.error({ error }, "Firehose error");
-    });
+        const task = taskForLabelUri(label.uri);
+        if (task) {
+          hydrationQueue.enqueue(task);
+        }
+      });
 
-    subscriber.on("connected", () => {
-      logger.info("Firehose connected");
-    });
+      subscriber.on("error", (error) => {
+        logger.error({ error, subscription }, "Firehose error");
+      });
 
-    subscriber.on("disconnected", () => {
-      logger.warn("Firehose disconnected");
-    });
+      subscriber.on("connected", () => {
+        logger.info({ subscription }, "Firehose connected");
+      });
 
-    await subscriber.start();
+      subscriber.on("disconnected", () => {
+        logger.warn({ subscription }, "Firehose disconnected");
+      });
+    }
+
+    await Promise.all(subscribers.map((subscriber) => subscriber.start()));
+
+    const apiServer = config.api.enabled
+      ? await startApiServer(db, config.api.port, config.api.host)
+      : null;
+
+    logger.info(
+      { subscriptions: subscribers.map((s) => s.subscription) },
+      "Application ready and subscribed to firehose"
+    );
+
+    // Filter rules and log level can change without reconnecting
+    process.on("SIGHUP", () => {
+      logger.info("Received SIGHUP, reloading config...");
+      reloadConfig();
+    });
 
-    logger.info("Application ready and subscribed to firehose");
+    if (config.reload.watch) {
+      watchConfig();
+    }
 
     process.on("SIGINT", async () => {
       logger.info("Shutting down gracefully...");
-      subscriber.stop();
+      await Promise.all(subscribers.map((subscriber) => subscriber.stop()));
+      await Promise.all(recorders.map((recorder) => recorder.close()));
+      apiServer?.close();
+      await recheck.stop();
       hydrationQueue.clear();
+      await hydrationQueue.flush();
       await closeDatabase();
       process.exit(0);
     });
 
     process.on("SIGTERM", async () => {
       logger.info("Shutting down gracefully...");
-      subscriber.stop();
+      await Promise.all(subscribers.map((subscriber) => subscriber.stop()));
+      await Promise.all(recorders.map((recorder) => recorder.close()));
+      apiServer?.close();
+      await recheck.stop();
       hydrationQueue.clear();
+      await hydrationQueue.flush();
       await closeDatabase();
       process.exit(0);
     });
@@ -0,0 +1,115 @@
+import { parseArgs } from "util";
+import { logger } from "./logger/index.js";
+import {
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "./database/connection.js";
+import { initializeSchema } from "./database/schema.js";
+import {
+  BlobsRepository,
+  StoredBlobRef,
+} from "./database/blobs.repository.js";
+import { ProfileBlobsRepository } from "./database/profile-blobs.repository.js";
+import { computePerceptualHashes } from "./blobs/hasher.js";
+import { createBlobStorage } from "./blobs/storage/index.js";
+
+const DEFAULT_BATCH_SIZE = 100;
+
+interface RehashOptions {
+  batchSize: number;
+}
+
+function parseOptions(): RehashOptions {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      "batch-size": { type: "string" },
+    },
+  });
+
+  const batchSize = values["batch-size"]
+    ? parseInt(values["batch-size"], 10)
+    : DEFAULT_BATCH_SIZE;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Invalid --batch-size: ${values["batch-size"]}`);
+  }
+
+  return { batchSize };
+}
+
+async function main() {
+  let stopping = false;
+
+  process.on("SIGINT", () => {
+    logger.info("Stopping rehash after the current blob...");
+    stopping = true;
+  });
+
+  try {
+    const options = parseOptions();
+
+    logger.info(options, "Starting rehash...");
+
+    await initializeDatabase();
+    await initializeSchema();
+
+    const db = getDatabase();
+    const storage = createBlobStorage();
+    const tables = [
+      { name: "blobs", repo: new BlobsRepository(db) },
+      { name: "profile_blobs", repo: new ProfileBlobsRepository(db) },
+    ];
+
+    const progress = { updated: 0, missing: 0, failed: 0 };
+
+    for (const { name, repo } of tables) {
+      let afterCid: string | null = null;
+
+      while (!stopping) {
+        const batch: StoredBlobRef[] = await repo.findMissingExtendedHashes(
+          afterCid,
+          options.batchSize
+        );
+        if (batch.length === 0) break;
+
+        for (const blob of batch) {
+          if (stopping) break;
+          afterCid = blob.blob_cid;
+
+          try {
+            const data = await storage.retrieve(blob.blob_cid);
+            if (!data) {
+              progress.missing++;
+              continue;
+            }
+
+            const hashes = await computePerceptualHashes(data);
+            await repo.updateExtendedHashes(blob.blob_cid, {
+              dct_phash: hashes.dctPhash,
+              pdq: hashes.pdq,
+              pdq_quality: hashes.pdqQuality,
+            });
+            progress.updated++;
+          } catch (error) {
+            logger.error({ error, table: name, cid: blob.blob_cid }, "Rehash failed");
+            progress.failed++;
+          }
+        }
+
+        logger.info({ table: name, ...progress }, "Rehash progress");
+      }
+    }
+
+    logger.info(progress, stopping ? "Rehash interrupted" : "Rehash complete");
+
+    await closeDatabase();
+    process.exit(progress.failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error({ error }, "Rehash failed");
+    process.exit(1);
+  }
+}
+
+main();
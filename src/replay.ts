@@ -0,0 +1,187 @@
+import { parseArgs } from "util";
+import { config } from "./config/index.js";
+import { logger } from "./logger/index.js";
+import {
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "./database/connection.js";
+import { initializeSchema } from "./database/schema.js";
+import { SubscriptionStateRepository } from "./database/subscription-state.repository.js";
+import { FirehoseEventsRepository } from "./database/firehose-events.repository.js";
+import {
+  FirehoseGap,
+  FirehoseGapsRepository,
+} from "./database/firehose-gaps.repository.js";
+import { HydrationTasksRepository } from "./database/hydration-tasks.repository.js";
+import { FirehoseSubscriber, subscriptionId } from "./firehose/subscriber.js";
+import { openCapture } from "./firehose/capture.js";
+import { taskForLabelUri } from "./hydration/routing.js";
+
+const DEFAULT_GAP_TIMEOUT = 300000;
+
+interface ReplayOptions {
+  subscription?: string;
+  timeout: number;
+  capture?: string;
+  speed: number;
+}
+
+function parseOptions(): ReplayOptions {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      subscription: { type: "string" },
+      timeout: { type: "string" },
+      capture: { type: "string" },
+      speed: { type: "string" },
+    },
+  });
+
+  const timeout = values.timeout
+    ? parseInt(values.timeout, 10) * 1000
+    : DEFAULT_GAP_TIMEOUT;
+
+  if (!Number.isInteger(timeout) || timeout < 1000) {
+    throw new Error(`Invalid --timeout: ${values.timeout}`);
+  }
+
+  const speed = values.speed ? parseFloat(values.speed) : 0;
+  if (isNaN(speed) || speed < 0) {
+    throw new Error(`Invalid --speed: ${values.speed}`);
+  }
+
+  return {
+    subscription: values.subscription,
+    timeout,
+    capture: values.capture,
+    speed,
+  };
+}
+
+async function main() {
+  try {
+    const options = parseOptions();
+
+    logger.info(options, "Starting replay...");
+
+    await initializeDatabase();
+    await initializeSchema();
+
+    const db = getDatabase();
+    const gapsRepo = new FirehoseGapsRepository(db);
+    const eventsRepo = new FirehoseEventsRepository(db);
+    const tasksRepo = new HydrationTasksRepository(db);
+
+    // Replayed labels are hydrated by the service on its next start
+    const queueHydration = (subscriber: FirehoseSubscriber) =>
+      subscriber.on("label", (label, sigStatus) => {
+        if (sigStatus !== null && sigStatus !== "valid") return;
+        const task = taskForLabelUri(label.uri);
+        if (task) {
+          tasksRepo.enqueue(task).catch(() => {});
+        }
+      });
+
+    if (options.capture) {
+      const capture = await openCapture(options.capture);
+      const subscriber = new FirehoseSubscriber(
+        capture.header.url,
+        new SubscriptionStateRepository(db),
+        eventsRepo,
+        gapsRepo
+      );
+      queueHydration(subscriber);
+
+      let labels = 0;
+      subscriber.on("label", () => labels++);
+
+      logger.info(
+        { file: options.capture, ...capture.header, speed: options.speed },
+        "Playing capture file"
+      );
+      await subscriber.playCapture(capture.frames(), options.speed);
+
+      logger.info({ labels }, "Capture playback complete");
+      await closeDatabase();
+      process.exit(0);
+    }
+
+    const urls = new Map(
+      config.labeler.wssUrls.map((url) => [subscriptionId(url), url])
+    );
+    const gaps = await gapsRepo.findOpen(options.subscription);
+
+    logger.info({ gaps: gaps.length }, "Found open firehose gaps");
+
+    let unfilled = 0;
+
+    for (const gap of gaps) {
+      const url = urls.get(gap.subscription);
+      if (!url) {
+        logger.warn(
+          { subscription: gap.subscription },
+          "Subscription is no longer configured in WSS_URL, skipping gap"
+        );
+        unfilled++;
+        continue;
+      }
+
+      const subscriber = new FirehoseSubscriber(
+        url,
+        new SubscriptionStateRepository(db),
+        eventsRepo,
+        gapsRepo,
+        { from: gap.from_seq, to: gap.to_seq }
+      );
+      queueHydration(subscriber);
+
+      const complete = await replayGap(subscriber, gap, options.timeout);
+      await subscriber.stop();
+
+      if (complete === null) {
+        logger.warn({ gap }, "Gap replay timed out");
+        unfilled++;
+        continue;
+      }
+
+      await gapsRepo.markReplayed(gap.id!, complete ? "filled" : "partial");
+      logger.info({ gap, complete }, "Gap replayed");
+    }
+
+    logger.info({ gaps: gaps.length, unfilled }, "Gap replay complete");
+
+    await closeDatabase();
+    process.exit(unfilled > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error({ error }, "Gap replay failed");
+    process.exit(1);
+  }
+}
+
+function replayGap(
+  subscriber: FirehoseSubscriber,
+  gap: FirehoseGap,
+  timeout: number
+): Promise<boolean | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), timeout);
+
+    subscriber.once("replayed", (complete: boolean) => {
+      clearTimeout(timer);
+      resolve(complete);
+    });
+
+    logger.info(
+      { subscription: gap.subscription, from: gap.from_seq, to: gap.to_seq },
+      "Replaying gap"
+    );
+    subscriber.start().catch((error) => {
+      logger.error({ error, gap }, "Failed to start gap replay");
+      clearTimeout(timer);
+      resolve(null);
+    });
+  });
+}
+
+main();
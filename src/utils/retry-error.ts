@@ -0,0 +1,12 @@
+// Kept apart from withRetry, which logs, so that code inspecting failures
+// does not load the config through the logger
+export class RetryError extends Error {
+  constructor(
+    message: string,
+    public attempts: number,
+    public lastError: Error
+  ) {
+    super(message);
+    this.name = "RetryError";
+  }
+}
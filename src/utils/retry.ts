@@ -1,4 +1,7 @@
 import { logger } from "../logger/index.js";
+import { RetryError } from "./retry-error.js";
+
+export { RetryError };
 
 export interface RetryConfig {
   maxAttempts: number;
@@ -8,17 +11,6 @@ export interface RetryConfig {
   retryableErrors?: ((error: any) => boolean)[];
 }
 
-export class RetryError extends Error {
-  constructor(
-    message: string,
-    public attempts: number,
-    public lastError: Error
-  ) {
-    super(message);
-    this.name = "RetryError";
-  }
-}
-
 export async function withRetry<T>(
   fn: () => Promise<T>,
   config: Partial<RetryConfig> = {}
@@ -0,0 +1,335 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "duckdb";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { startApiServer } from "../../src/api/server.js";
+import { LabelsRepository } from "../../src/database/labels.repository.js";
+import { PostsRepository } from "../../src/database/posts.repository.js";
+import { BlobsRepository } from "../../src/database/blobs.repository.js";
+import { ProfileSnapshotsRepository } from "../../src/database/profile-snapshots.repository.js";
+import { HydrationOutcomesRepository } from "../../src/database/hydration-outcomes.repository.js";
+import { HandleHistoryRepository } from "../../src/database/handle-history.repository.js";
+
+describe("Query API", () => {
+  let db: Database;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    db = new Database(":memory:");
+
+    await new Promise<void>((resolve, reject) => {
+      db.exec(
+        `
+        CREATE SEQUENCE IF NOT EXISTS labels_id_seq;
+        CREATE TABLE labels (
+          id INTEGER PRIMARY KEY DEFAULT nextval('labels_id_seq'),
+          uri TEXT NOT NULL,
+          cid TEXT,
+          val TEXT NOT NULL,
+          neg BOOLEAN DEFAULT FALSE,
+          cts TIMESTAMP NOT NULL,
+          exp TIMESTAMP,
+          src TEXT NOT NULL,
+          sig_status TEXT,
+          subscription TEXT,
+          UNIQUE(uri, val, cts)
+        );
+
+        CREATE TABLE posts (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          text TEXT,
+          facets JSON,
+          embeds JSON,
+          langs JSON,
+          tags JSON,
+          created_at TIMESTAMP NOT NULL,
+          is_reply BOOLEAN DEFAULT FALSE,
+          reply_parent_uri TEXT,
+          reply_root_uri TEXT,
+          quote_uri TEXT,
+          is_context BOOLEAN DEFAULT FALSE
+        );
+
+        CREATE TABLE profiles (
+          did TEXT PRIMARY KEY,
+          handle TEXT,
+          display_name TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          banner_cid TEXT
+        );
+
+        CREATE TABLE blobs (
+          post_uri TEXT NOT NULL,
+          blob_cid TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          storage_path TEXT,
+          mimetype TEXT,
+          PRIMARY KEY (post_uri, blob_cid)
+        );
+
+        CREATE TABLE profile_blobs (
+          did TEXT NOT NULL,
+          blob_type TEXT NOT NULL,
+          blob_cid TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          storage_path TEXT,
+          mimetype TEXT,
+          captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (did, blob_type, captured_at)
+        );
+
+        CREATE TABLE blob_frames (
+          blob_cid TEXT NOT NULL,
+          frame_index INTEGER NOT NULL,
+          pts_seconds DOUBLE,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          PRIMARY KEY (blob_cid, frame_index)
+        );
+
+        CREATE TABLE profile_snapshots (
+          did TEXT NOT NULL,
+          handle TEXT,
+          display_name TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          banner_cid TEXT,
+          captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (did, captured_at)
+        );
+
+        CREATE SEQUENCE IF NOT EXISTS hydration_outcomes_id_seq;
+        CREATE TABLE hydration_outcomes (
+          id INTEGER PRIMARY KEY DEFAULT nextval('hydration_outcomes_id_seq'),
+          type TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('ok', 'not_found', 'takendown', 'deactivated', 'error')),
+          http_status INTEGER,
+          error TEXT,
+          message TEXT,
+          attempted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE identities (
+          did TEXT PRIMARY KEY,
+          handle TEXT,
+          handle_verified BOOLEAN NOT NULL DEFAULT FALSE,
+          pds TEXT,
+          resolved_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE handle_history (
+          did TEXT NOT NULL,
+          handle TEXT NOT NULL,
+          verified BOOLEAN NOT NULL DEFAULT FALSE,
+          first_seen TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          last_seen TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (did, handle)
+        );
+      `,
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+
+    const labelsRepo = new LabelsRepository(db);
+    for (let i = 0; i < 3; i++) {
+      await labelsRepo.insert({
+        uri: `at://did:plc:user/app.bsky.feed.post/${i}`,
+        val: "spam",
+        cts: `2025-01-15T12:0${i}:00Z`,
+        src: "did:plc:labeler",
+      });
+    }
+
+    await new PostsRepository(db).insert({
+      uri: "at://did:plc:user/app.bsky.feed.post/0",
+      did: "did:plc:user",
+      text: "buy now",
+      langs: ["en"],
+      created_at: "2025-01-15T11:00:00Z",
+    });
+
+    await new BlobsRepository(db).insert({
+      post_uri: "at://did:plc:user/app.bsky.feed.post/0",
+      blob_cid: "bafyapitest",
+      sha256: "apisha256",
+      phash: "00ff00ff00ff00ff",
+      mimetype: "image/jpeg",
+    });
+
+    await new HydrationOutcomesRepository(db).record({
+      type: "post",
+      subject: "at://did:plc:user/app.bsky.feed.post/0",
+      status: "ok",
+    });
+
+    await new ProfileSnapshotsRepository(db).insert({
+      did: "did:plc:user",
+      display_name: "Old name",
+      captured_at: new Date("2025-01-15T12:05:00Z"),
+    });
+
+    await labelsRepo.insert({
+      uri: "at://did:plc:user/app.bsky.actor.profile/self",
+      val: "impersonation",
+      cts: "2025-01-15T12:30:00Z",
+      src: "did:plc:labeler",
+    });
+    await labelsRepo.insert({
+      uri: "did:plc:user",
+      val: "troll",
+      cts: "2025-01-15T12:40:00Z",
+      src: "did:plc:labeler",
+    });
+
+    const handleHistory = new HandleHistoryRepository(db);
+    await handleHistory.record("did:plc:user", "old.example.com", true);
+    await handleHistory.record("did:plc:user", "new.example.com", true);
+    await handleHistory.record("did:plc:other", "old.example.com", false);
+
+    server = await startApiServer(db, 0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await new Promise<void>((resolve) => {
+      db.close(() => resolve());
+    });
+  });
+
+  test("should page through labels with a cursor", async () => {
+    const first = await fetch(`${baseUrl}/labels?val=spam&limit=2`).then((r) =>
+      r.json()
+    );
+    expect(first.labels.length).toBe(2);
+    expect(first.cursor).not.toBeNull();
+
+    const second = await fetch(
+      `${baseUrl}/labels?val=spam&limit=2&cursor=${first.cursor}`
+    ).then((r) => r.json());
+    expect(second.labels.length).toBe(1);
+    expect(second.cursor).toBeNull();
+  });
+
+  test("should reject invalid time ranges", async () => {
+    const res = await fetch(`${baseUrl}/labels?since=yesterday`);
+    expect(res.status).toBe(400);
+  });
+
+  test("should return a post with its labels and blobs", async () => {
+    const uri = encodeURIComponent("at://did:plc:user/app.bsky.feed.post/0");
+    const body = await fetch(`${baseUrl}/posts?uri=${uri}`).then((r) =>
+      r.json()
+    );
+
+    expect(body.post.text).toBe("buy now");
+    expect(body.post.langs).toEqual(["en"]);
+    expect(body.labels.length).toBe(1);
+    expect(body.blobs[0].blob_cid).toBe("bafyapitest");
+    expect(body.outcomes.map((o: any) => o.status)).toEqual(["ok"]);
+  });
+
+  test("should return 404 for unknown profiles", async () => {
+    const res = await fetch(`${baseUrl}/profiles/did:plc:nobody`);
+    expect(res.status).toBe(404);
+  });
+
+  test("should return a profile as of a timestamp", async () => {
+    const res = await fetch(
+      `${baseUrl}/profiles/did:plc:user?asOf=2025-01-15T12:10:00Z`
+    );
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.profile.display_name).toBe("Old name");
+    expect(body.labels.map((l: any) => l.val)).toEqual(["troll", "impersonation"]);
+
+    const first = await fetch(
+      `${baseUrl}/profiles/did:plc:user?asOf=2025-01-15T12:10:00Z&limit=1`
+    ).then((r) => r.json());
+    const second = await fetch(
+      `${baseUrl}/profiles/did:plc:user?asOf=2025-01-15T12:10:00Z&limit=1&cursor=${first.cursor}`
+    ).then((r) => r.json());
+    expect(first.labels.map((l: any) => l.val)).toEqual(["troll"]);
+    expect(second.labels.map((l: any) => l.val)).toEqual(["impersonation"]);
+
+    const early = await fetch(
+      `${baseUrl}/profiles/did:plc:user?asOf=2025-01-01T00:00:00Z`
+    );
+    expect(early.status).toBe(404);
+
+    const invalid = await fetch(`${baseUrl}/profiles/did:plc:user?asOf=soon`);
+    expect(invalid.status).toBe(400);
+  });
+
+  test("should return the handle history of an account and a handle", async () => {
+    const identity = await fetch(`${baseUrl}/identities/did:plc:user`).then(
+      (r) => r.json()
+    );
+    expect(identity.identity).toBeNull();
+    expect(identity.handles.map((h: any) => h.handle).sort()).toEqual([
+      "new.example.com",
+      "old.example.com",
+    ]);
+
+    const handle = await fetch(`${baseUrl}/handles/OLD.example.com`).then(
+      (r) => r.json()
+    );
+    expect(handle.accounts.map((a: any) => a.did).sort()).toEqual([
+      "did:plc:other",
+      "did:plc:user",
+    ]);
+
+    const capped = await fetch(`${baseUrl}/handles/old.example.com?limit=1`).then(
+      (r) => r.json()
+    );
+    expect(capped.accounts.length).toBe(1);
+
+    const unknown = await fetch(`${baseUrl}/identities/did:plc:nobody`);
+    expect(unknown.status).toBe(404);
+  });
+
+  test("should look up blobs by hash", async () => {
+    const bySha = await fetch(`${baseUrl}/blobs?sha256=apisha256`).then((r) =>
+      r.json()
+    );
+    const byPhash = await fetch(
+      `${baseUrl}/blobs?phash=00ff00ff00ff00ff`
+    ).then((r) => r.json());
+
+    const similar = await fetch(
+      `${baseUrl}/blobs?phash=00ff00ff00ff00fe&maxDistance=2`
+    ).then((r) => r.json());
+
+    expect(bySha.blobs.length).toBe(1);
+    expect(bySha.blobs[0].phash_bits).toBe(BigInt("0x00ff00ff00ff00ff").toString());
+    expect(similar.blobs[0].distance).toBe(1);
+    expect(byPhash.blobs.length).toBe(1);
+    expect(byPhash.profileBlobs.length).toBe(0);
+
+    const capped = await fetch(
+      `${baseUrl}/blobs?phash=00ff00ff00ff00ff&maxDistance=64&limit=0`
+    ).then((r) => r.json());
+    expect(capped.blobs.length).toBe(0);
+  });
+});
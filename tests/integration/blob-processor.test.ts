@@ -0,0 +1,197 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "duckdb";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import sharp from "sharp";
+import { config } from "../../src/config/index.js";
+import { BlobProcessor } from "../../src/blobs/processor.js";
+import { BlobsRepository } from "../../src/database/blobs.repository.js";
+
+const CID = "bafyreused";
+
+function imageEmbed(cid: string, mimeType = "image/jpeg") {
+  return [
+    {
+      $type: "app.bsky.embed.images",
+      images: [{ image: { ref: { $link: cid }, mimeType } }],
+    },
+  ];
+}
+
+// Serves one image for every getBlob request and nothing else, so DID
+// resolution falls back to the configured PDS
+function stubFetch(image: Buffer): { requests: string[]; restore: () => void } {
+  const original = globalThis.fetch;
+  const requests: string[] = [];
+
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (!url.includes("com.atproto.sync.getBlob")) {
+      return new Response(null, { status: 404 });
+    }
+    requests.push(url);
+    return new Response(new Uint8Array(image));
+  }) as typeof fetch;
+
+  return { requests, restore: () => (globalThis.fetch = original) };
+}
+
+describe("BlobProcessor", () => {
+  let db: Database;
+  let blobsRepo: BlobsRepository;
+
+  beforeAll(async () => {
+    db = new Database(":memory:");
+
+    await new Promise<void>((resolve, reject) => {
+      db.exec(
+        `
+        CREATE TABLE blobs (
+          post_uri TEXT NOT NULL,
+          blob_cid TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          storage_path TEXT,
+          mimetype TEXT,
+          PRIMARY KEY (post_uri, blob_cid)
+        );
+
+        CREATE TABLE blob_frames (
+          blob_cid TEXT NOT NULL,
+          frame_index INTEGER NOT NULL,
+          pts_seconds DOUBLE,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          PRIMARY KEY (blob_cid, frame_index)
+        );
+      `,
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+
+    blobsRepo = new BlobsRepository(db);
+
+    // As left by hydrating the first post under full-blob
+    await blobsRepo.insert({
+      post_uri: "at://did:plc:user/app.bsky.feed.post/1",
+      blob_cid: CID,
+      sha256: "reusedsha",
+      phash: "00ff00ff00ff00ff",
+      storage_path: "/data/blobs/bafyreused",
+      mimetype: "image/jpeg",
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      db.close(() => resolve());
+    });
+  });
+
+  test("should only reuse the stored path of a blob under full-blob", async () => {
+    const processor = new BlobProcessor(db);
+
+    await processor.processBlobs(
+      "at://did:plc:user/app.bsky.feed.post/2",
+      imageEmbed(CID),
+      "hashes-only"
+    );
+    await processor.processBlobs(
+      "at://did:plc:user/app.bsky.feed.post/3",
+      imageEmbed(CID),
+      "full-blob"
+    );
+
+    const hashesOnly = await blobsRepo.findByPostUri(
+      "at://did:plc:user/app.bsky.feed.post/2"
+    );
+    expect(hashesOnly[0].sha256).toBe("reusedsha");
+    expect(hashesOnly[0].storage_path).toBeNull();
+
+    const fullBlob = await blobsRepo.findByPostUri(
+      "at://did:plc:user/app.bsky.feed.post/3"
+    );
+    expect(fullBlob[0].storage_path).toBe("/data/blobs/bafyreused");
+  });
+
+  test("should fetch and store a blob first seen without its bytes", async () => {
+    const blobDir = await fs.mkdtemp(path.join(os.tmpdir(), "blob-processor-test-"));
+    const { defaultPolicy } = config.hydration;
+    const { localPath } = config.blobs.storage;
+    config.hydration.defaultPolicy = "full-blob";
+    config.blobs.storage.localPath = blobDir;
+
+    const image = await sharp({
+      create: { width: 32, height: 32, channels: 3, background: "#c03" },
+    })
+      .png()
+      .toBuffer();
+    const fetched = stubFetch(image);
+
+    try {
+      // As left by a hashes-only label on the first post
+      await blobsRepo.insert({
+        post_uri: "at://did:plc:user/app.bsky.feed.post/4",
+        blob_cid: "bafyhashedonly",
+        sha256: "hashedonlysha",
+        mimetype: "image/png",
+      });
+
+      await new BlobProcessor(db).processBlobs(
+        "at://did:plc:user/app.bsky.feed.post/5",
+        imageEmbed("bafyhashedonly", "image/png"),
+        "full-blob"
+      );
+
+      const [blob] = await blobsRepo.findByPostUri(
+        "at://did:plc:user/app.bsky.feed.post/5"
+      );
+      expect(fetched.requests.length).toBe(1);
+      expect(blob.storage_path).toStartWith(blobDir);
+      expect(await fs.readFile(blob.storage_path!)).toEqual(image);
+    } finally {
+      fetched.restore();
+      config.hydration.defaultPolicy = defaultPolicy;
+      config.blobs.storage.localPath = localPath;
+      await fs.rm(blobDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should fetch a known video again until it has keyframes", async () => {
+    const { extractFrames } = config.blobs.video;
+    config.blobs.video.extractFrames = true;
+    const fetched = stubFetch(Buffer.from("not really a video"));
+
+    try {
+      // Hashed before keyframes were extracted
+      await blobsRepo.insert({
+        post_uri: "at://did:plc:user/app.bsky.feed.post/6",
+        blob_cid: "bafyvideo",
+        sha256: "videosha",
+        mimetype: "video/mp4",
+      });
+
+      await new BlobProcessor(db).processBlobs(
+        "at://did:plc:user/app.bsky.feed.post/7",
+        [{ video: { ref: { $link: "bafyvideo" }, mimeType: "video/mp4" } }],
+        "hashes-only"
+      );
+
+      expect(fetched.requests.length).toBe(1);
+    } finally {
+      fetched.restore();
+      config.blobs.video.extractFrames = extractFrames;
+    }
+  });
+});
@@ -1,10 +1,20 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { Database } from "duckdb";
-import { initializeSchema } from "../../src/database/schema.js";
+import {
+  initializeSchema,
+  LABEL_STATE_VIEW_SQL,
+} from "../../src/database/schema.js";
 import { LabelsRepository } from "../../src/database/labels.repository.js";
 import { PostsRepository } from "../../src/database/posts.repository.js";
 import { ProfilesRepository } from "../../src/database/profiles.repository.js";
+import { HydrationOutcomesRepository } from "../../src/database/hydration-outcomes.repository.js";
+import { ProfileSnapshotsRepository } from "../../src/database/profile-snapshots.repository.js";
 import { BlobsRepository } from "../../src/database/blobs.repository.js";
+import { HydrationTasksRepository } from "../../src/database/hydration-tasks.repository.js";
+import { BlobFramesRepository } from "../../src/database/blob-frames.repository.js";
+import { ListsRepository } from "../../src/database/lists.repository.js";
+import { FeedGeneratorsRepository } from "../../src/database/feed-generators.repository.js";
+import { StarterPacksRepository } from "../../src/database/starter-packs.repository.js";
 
 describe("Database Integration Tests", () => {
   let db: Database;
@@ -12,6 +22,11 @@ describe("Database Integration Tests", () => {
   let postsRepo: PostsRepository;
   let profilesRepo: ProfilesRepository;
   let blobsRepo: BlobsRepository;
+  let hydrationTasksRepo: HydrationTasksRepository;
+  let blobFramesRepo: BlobFramesRepository;
+  let listsRepo: ListsRepository;
+  let feedGeneratorsRepo: FeedGeneratorsRepository;
+  let starterPacksRepo: StarterPacksRepository;
 
   beforeAll(async () => {
     db = new Database(":memory:");
@@ -29,6 +44,8 @@ describe("Database Integration Tests", () => {
           cts TIMESTAMP NOT NULL,
           exp TIMESTAMP,
           src TEXT NOT NULL,
+          sig_status TEXT,
+          subscription TEXT,
           UNIQUE(uri, val, cts)
         );
 
@@ -41,7 +58,11 @@ describe("Database Integration Tests", () => {
           langs JSON,
           tags JSON,
           created_at TIMESTAMP NOT NULL,
-          is_reply BOOLEAN DEFAULT FALSE
+          is_reply BOOLEAN DEFAULT FALSE,
+          reply_parent_uri TEXT,
+          reply_root_uri TEXT,
+          quote_uri TEXT,
+          is_context BOOLEAN DEFAULT FALSE
         );
 
         CREATE TABLE IF NOT EXISTS profiles (
@@ -53,15 +74,96 @@ describe("Database Integration Tests", () => {
           banner_cid TEXT
         );
 
+        CREATE SEQUENCE IF NOT EXISTS hydration_outcomes_id_seq;
+        CREATE TABLE IF NOT EXISTS hydration_outcomes (
+          id INTEGER PRIMARY KEY DEFAULT nextval('hydration_outcomes_id_seq'),
+          type TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('ok', 'not_found', 'takendown', 'deactivated', 'error')),
+          http_status INTEGER,
+          error TEXT,
+          message TEXT,
+          attempted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS profile_snapshots (
+          did TEXT NOT NULL,
+          handle TEXT,
+          display_name TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          banner_cid TEXT,
+          captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (did, captured_at)
+        );
+
         CREATE TABLE IF NOT EXISTS blobs (
           post_uri TEXT NOT NULL,
           blob_cid TEXT NOT NULL,
           sha256 TEXT NOT NULL,
           phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
           storage_path TEXT,
           mimetype TEXT,
           PRIMARY KEY (post_uri, blob_cid)
         );
+
+        CREATE TABLE IF NOT EXISTS blob_frames (
+          blob_cid TEXT NOT NULL,
+          frame_index INTEGER NOT NULL,
+          pts_seconds DOUBLE,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          PRIMARY KEY (blob_cid, frame_index)
+        );
+
+        CREATE TABLE IF NOT EXISTS lists (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          name TEXT,
+          purpose TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          created_at TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS feed_generators (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          service_did TEXT,
+          display_name TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          created_at TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS starter_packs (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          name TEXT,
+          description TEXT,
+          list_uri TEXT,
+          feeds JSON,
+          created_at TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS hydration_tasks (
+          type TEXT NOT NULL,
+          identifier TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (type, identifier)
+        );
       `,
         (err) => {
           if (err) reject(err);
@@ -70,10 +172,22 @@ describe("Database Integration Tests", () => {
       );
     });
 
+    await new Promise<void>((resolve, reject) => {
+      db.exec(LABEL_STATE_VIEW_SQL, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
     labelsRepo = new LabelsRepository(db);
     postsRepo = new PostsRepository(db);
     profilesRepo = new ProfilesRepository(db);
     blobsRepo = new BlobsRepository(db);
+    hydrationTasksRepo = new HydrationTasksRepository(db);
+    blobFramesRepo = new BlobFramesRepository(db);
+    listsRepo = new ListsRepository(db);
+    feedGeneratorsRepo = new FeedGeneratorsRepository(db);
+    starterPacksRepo = new StarterPacksRepository(db);
   });
 
   afterAll(async () => {
@@ -98,10 +212,187 @@ describe("Database Integration Tests", () => {
       expect(found[0].val).toBe("spam");
     });
 
+    test("should record which subscription a label came from", async () => {
+      await labelsRepo.insert({
+        uri: "at://did:plc:test/app.bsky.feed.post/sub",
+        val: "impersonation",
+        cts: "2025-01-15T12:00:00Z",
+        src: "did:plc:other-labeler",
+        subscription: "labeler.example.com",
+      });
+
+      const found = await labelsRepo.list({
+        subscription: "labeler.example.com",
+        limit: 10,
+      });
+
+      expect(found.length).toBe(1);
+      expect(found[0].val).toBe("impersonation");
+    });
+
     test("should find labels by value", async () => {
       const labels = await labelsRepo.findByValue("spam");
       expect(labels.length).toBeGreaterThan(0);
     });
+
+    test("should drop labels negated by a later event", async () => {
+      const uri = "at://did:plc:test/app.bsky.feed.post/negated";
+
+      await labelsRepo.insert({
+        uri,
+        val: "rude",
+        cts: "2025-01-15T12:00:00Z",
+        src: "did:plc:labeler",
+      });
+      await labelsRepo.insert({
+        uri,
+        val: "rude",
+        neg: true,
+        cts: "2025-01-15T13:00:00Z",
+        src: "did:plc:labeler",
+      });
+
+      const active = await labelsRepo.getActiveLabels(uri);
+      expect(active.length).toBe(0);
+    });
+
+    test("should keep labels re-applied after a negation", async () => {
+      const uri = "at://did:plc:test/app.bsky.feed.post/reapplied";
+
+      await labelsRepo.insert({
+        uri,
+        val: "rude",
+        neg: true,
+        cts: "2025-01-15T13:00:00Z",
+        src: "did:plc:labeler",
+      });
+      await labelsRepo.insert({
+        uri,
+        val: "rude",
+        cts: "2025-01-15T14:00:00Z",
+        src: "did:plc:labeler",
+      });
+
+      const active = await labelsRepo.getActiveLabels(uri);
+      expect(active.length).toBe(1);
+      expect(active[0].val).toBe("rude");
+    });
+
+    test("should drop expired labels", async () => {
+      const uri = "at://did:plc:test/app.bsky.feed.post/expiring";
+
+      await labelsRepo.insert({
+        uri,
+        val: "temporary",
+        cts: "2025-01-15T12:00:00Z",
+        exp: "2025-01-16T12:00:00Z",
+        src: "did:plc:labeler",
+      });
+
+      const before = await labelsRepo.getActiveLabels(
+        uri,
+        new Date("2025-01-16T00:00:00Z")
+      );
+      const after = await labelsRepo.getActiveLabels(
+        uri,
+        new Date("2025-01-17T00:00:00Z")
+      );
+
+      expect(before.length).toBe(1);
+      expect(after.length).toBe(0);
+    });
+
+    test("should find labeled subjects missing hydration", async () => {
+      await labelsRepo.insert({
+        uri: "did:plc:unhydrated",
+        val: "spam",
+        cts: "2025-02-01T12:00:00Z",
+        src: "did:plc:labeler",
+      });
+
+      const all = await labelsRepo.findUnhydratedSubjects();
+      const recent = await labelsRepo.findUnhydratedSubjects(
+        "2025-02-01T00:00:00Z"
+      );
+
+      expect(all.map((s) => s.identifier)).toContain(
+        "at://did:plc:test/app.bsky.feed.post/123"
+      );
+      expect(recent).toEqual([
+        expect.objectContaining({
+          type: "profile",
+          identifier: "did:plc:unhydrated",
+        }),
+      ]);
+    });
+
+    test("should route unhydrated records by collection", async () => {
+      const uris = [
+        "at://did:plc:records/app.bsky.graph.list/l1",
+        "at://did:plc:records/app.bsky.feed.generator/f1",
+        "at://did:plc:records/app.bsky.graph.starterpack/s1",
+        "at://did:plc:records/app.bsky.actor.profile/self",
+        "at://did:plc:records/com.example.unknown/x1",
+      ];
+      for (const uri of uris) {
+        await labelsRepo.insert({
+          uri,
+          val: "spam",
+          cts: "2025-01-25T12:00:00Z",
+          src: "did:plc:labeler",
+        });
+      }
+
+      const subjects = (await labelsRepo.findUnhydratedSubjects()).filter(
+        (s) => s.identifier.includes("did:plc:records")
+      );
+      expect(
+        subjects.map((s) => [s.type, s.identifier]).sort()
+      ).toEqual([
+        ["feedgen", "at://did:plc:records/app.bsky.feed.generator/f1"],
+        ["list", "at://did:plc:records/app.bsky.graph.list/l1"],
+        ["profile", "did:plc:records"],
+        ["starterpack", "at://did:plc:records/app.bsky.graph.starterpack/s1"],
+      ]);
+
+      await listsRepo.insert({
+        uri: "at://did:plc:records/app.bsky.graph.list/l1",
+        did: "did:plc:records",
+      });
+      const remaining = await labelsRepo.findUnhydratedSubjects();
+      expect(remaining.map((s) => s.type)).not.toContain("list");
+    });
+
+    test("should find active labels by value", async () => {
+      const active = await labelsRepo.findActiveByValue("rude");
+      expect(active.map((l) => l.uri)).toEqual([
+        "at://did:plc:test/app.bsky.feed.post/reapplied",
+      ]);
+    });
+
+    test("should find label values across a subject's URIs", async () => {
+      for (const [uri, val, sig_status] of [
+        ["did:plc:policy", "spam", "valid"],
+        ["at://did:plc:policy", "csam", null],
+        ["did:plc:policy", "porn", "invalid"],
+      ] as const) {
+        await labelsRepo.insert({
+          uri,
+          val,
+          cts: "2025-01-20T12:00:00Z",
+          src: "did:plc:labeler",
+          sig_status,
+        });
+      }
+
+      expect(
+        await labelsRepo.findValuesForSubject([
+          "did:plc:policy",
+          "at://did:plc:policy",
+        ])
+      ).toEqual(["csam", "spam"]);
+      expect(await labelsRepo.findValuesForSubject([])).toEqual([]);
+    });
   });
 
   describe("PostsRepository", () => {
@@ -125,6 +416,27 @@ describe("Database Integration Tests", () => {
       const posts = await postsRepo.findByDid("did:plc:user");
       expect(posts.length).toBeGreaterThan(0);
     });
+
+    test("should keep labeled posts when hydrated again as context", async () => {
+      const uri = "at://did:plc:user/app.bsky.feed.post/parent";
+      const post = {
+        uri,
+        did: "did:plc:user",
+        text: "parent",
+        created_at: "2025-01-15T11:00:00Z",
+        quote_uri: "at://did:plc:other/app.bsky.feed.post/quoted",
+      };
+
+      await postsRepo.insert({ ...post, is_context: true });
+      expect((await postsRepo.findByUri(uri))?.is_context).toBe(true);
+
+      await postsRepo.insert(post);
+      await postsRepo.insert({ ...post, is_context: true });
+
+      const found = await postsRepo.findByUri(uri);
+      expect(found?.is_context).toBe(false);
+      expect(found?.quote_uri).toBe(post.quote_uri);
+    });
   });
 
   describe("ProfilesRepository", () => {
@@ -168,6 +480,134 @@ describe("Database Integration Tests", () => {
     });
   });
 
+  describe("HydrationOutcomesRepository", () => {
+    test("should re-check labeled posts until they are found deleted", async () => {
+      const outcomesRepo = new HydrationOutcomesRepository(db);
+      const base = "at://did:plc:recheck/app.bsky.feed.post";
+      for (const rkey of ["kept", "deleted", "context"]) {
+        await postsRepo.insert({
+          uri: `${base}/${rkey}`,
+          did: "did:plc:recheck",
+          text: rkey,
+          created_at: "2025-01-15T12:00:00Z",
+          is_context: rkey === "context",
+        });
+      }
+
+      const due = (uris: string[]) => uris.filter((uri) => uri.startsWith(base));
+
+      // Never-checked posts are due first
+      expect(due(await outcomesRepo.findPostsDueForRecheck(60000, 1000))).toEqual([
+        `${base}/deleted`,
+        `${base}/kept`,
+      ]);
+
+      await outcomesRepo.record({ type: "post", subject: `${base}/kept`, status: "ok" });
+      await outcomesRepo.record({
+        type: "post",
+        subject: `${base}/deleted`,
+        status: "not_found",
+        http_status: 400,
+        error: "RecordNotFound",
+      });
+
+      expect(due(await outcomesRepo.findPostsDueForRecheck(60000, 1000))).toEqual([]);
+      expect(due(await outcomesRepo.findPostsDueForRecheck(0, 1000))).toEqual([
+        `${base}/kept`,
+      ]);
+
+      const outcomes = await outcomesRepo.findBySubject(`${base}/deleted`);
+      expect(outcomes[0]).toMatchObject({ status: "not_found", error: "RecordNotFound" });
+    });
+  });
+
+  describe("ProfileSnapshotsRepository", () => {
+    test("should return the profile as of a point in time", async () => {
+      const snapshotsRepo = new ProfileSnapshotsRepository(db);
+      const did = "did:plc:renamer";
+
+      await snapshotsRepo.insert({
+        did,
+        display_name: "Before",
+        captured_at: new Date("2025-01-10T00:00:00Z"),
+      });
+      await snapshotsRepo.insert({
+        did,
+        display_name: "After",
+        captured_at: new Date("2025-01-20T00:00:00Z"),
+      });
+
+      const history = await snapshotsRepo.findByDid(did);
+      expect(history.map((s) => s.display_name)).toEqual(["After", "Before"]);
+
+      const atLabel = await snapshotsRepo.findAsOf(did, "2025-01-15T12:00:00Z");
+      expect(atLabel?.display_name).toBe("Before");
+
+      const latest = await snapshotsRepo.findAsOf(did, "2025-02-01T00:00:00Z");
+      expect(latest?.display_name).toBe("After");
+    });
+
+    test("should return null before the first snapshot", async () => {
+      const snapshotsRepo = new ProfileSnapshotsRepository(db);
+      expect(
+        await snapshotsRepo.findAsOf("did:plc:renamer", "2025-01-01T00:00:00Z")
+      ).toBeNull();
+
+      expect(
+        await snapshotsRepo.findAsOf("did:plc:nobody", "2025-01-01T00:00:00Z")
+      ).toBeNull();
+    });
+  });
+
+  describe("Record repositories", () => {
+    test("should insert and retrieve a list", async () => {
+      await listsRepo.insert({
+        uri: "at://did:plc:test/app.bsky.graph.list/abc",
+        did: "did:plc:test",
+        name: "Spammers",
+        purpose: "app.bsky.graph.defs#modlist",
+        created_at: "2025-01-15T12:00:00Z",
+      });
+
+      const list = await listsRepo.findByUri(
+        "at://did:plc:test/app.bsky.graph.list/abc"
+      );
+      expect(list?.name).toBe("Spammers");
+      expect(list?.purpose).toBe("app.bsky.graph.defs#modlist");
+    });
+
+    test("should insert and retrieve a feed generator", async () => {
+      await feedGeneratorsRepo.insert({
+        uri: "at://did:plc:test/app.bsky.feed.generator/abc",
+        did: "did:plc:test",
+        service_did: "did:web:feeds.example.com",
+        display_name: "Feed",
+      });
+
+      const feed = await feedGeneratorsRepo.findByUri(
+        "at://did:plc:test/app.bsky.feed.generator/abc"
+      );
+      expect(feed?.service_did).toBe("did:web:feeds.example.com");
+      expect(feed?.display_name).toBe("Feed");
+    });
+
+    test("should insert and retrieve a starter pack", async () => {
+      await starterPacksRepo.insert({
+        uri: "at://did:plc:test/app.bsky.graph.starterpack/abc",
+        did: "did:plc:test",
+        name: "Pack",
+        list_uri: "at://did:plc:test/app.bsky.graph.list/abc",
+        feeds: ["at://did:plc:test/app.bsky.feed.generator/abc"],
+      });
+
+      const pack = await starterPacksRepo.findByUri(
+        "at://did:plc:test/app.bsky.graph.starterpack/abc"
+      );
+      expect(pack?.list_uri).toBe("at://did:plc:test/app.bsky.graph.list/abc");
+      expect(await starterPacksRepo.findByUri("at://missing")).toBeNull();
+    });
+  });
+
   describe("BlobsRepository", () => {
     test("should insert and retrieve a blob", async () => {
       const blob = {
@@ -196,10 +636,104 @@ describe("Database Integration Tests", () => {
       expect(found.length).toBeGreaterThan(0);
     });
 
+    test("should rank blobs by pHash Hamming distance", async () => {
+      await blobsRepo.insert({
+        post_uri: "at://did:plc:user/app.bsky.feed.post/abc123",
+        blob_cid: "bafynear",
+        sha256: "near",
+        phash: "ffffffffffffff00",
+      });
+      await blobsRepo.insert({
+        post_uri: "at://did:plc:user/app.bsky.feed.post/abc123",
+        blob_cid: "bafyexact",
+        sha256: "exact",
+        phash: "ffffffffffffffff",
+      });
+      await blobsRepo.insert({
+        post_uri: "at://did:plc:user/app.bsky.feed.post/abc123",
+        blob_cid: "bafyfar",
+        sha256: "far",
+        phash: "0000000000000000",
+      });
+
+      const similar = await blobsRepo.findSimilarByPhash("ffffffffffffffff", 10);
+
+      expect(similar.map((b) => b.blob_cid)).toEqual(["bafyexact", "bafynear"]);
+      expect(similar.map((b) => b.distance)).toEqual([0, 8]);
+    });
+
     test("should find blob by CID", async () => {
       const found = await blobsRepo.findByCid("bafytest123");
       expect(found).not.toBeNull();
       expect(found?.sha256).toBe("abc123def456");
     });
   });
+
+  describe("BlobFramesRepository", () => {
+    test("should store frames per video CID and match them by pHash", async () => {
+      await blobFramesRepo.insert({
+        blob_cid: "bafyvideo",
+        frame_index: 1,
+        pts_seconds: 2.5,
+        phash: "00000000000000ff",
+      });
+      await blobFramesRepo.insert({
+        blob_cid: "bafyvideo",
+        frame_index: 0,
+        pts_seconds: 0,
+        phash: "0f0f0f0f0f0f0f0f",
+      });
+
+      const frames = await blobFramesRepo.findByCid("bafyvideo");
+      const similar = await blobFramesRepo.findSimilarByPhash("00000000000000fe", 2);
+
+      expect(frames.map((f) => f.frame_index)).toEqual([0, 1]);
+      expect(await blobFramesRepo.hasFrames("bafyvideo")).toBe(true);
+      expect(await blobFramesRepo.hasFrames("bafyother")).toBe(false);
+      expect(similar.length).toBe(1);
+      expect(similar[0].pts_seconds).toBe(2.5);
+      expect(similar[0].distance).toBe(1);
+    });
+  });
+
+  describe("HydrationTasksRepository", () => {
+    const task = {
+      type: "post" as const,
+      identifier: "at://did:plc:user/app.bsky.feed.post/queued",
+    };
+
+    test("should return enqueued tasks as unfinished", async () => {
+      await hydrationTasksRepo.enqueue(task);
+      await hydrationTasksRepo.markInFlight(task);
+
+      const unfinished = await hydrationTasksRepo.findUnfinished();
+
+      expect(unfinished.length).toBe(1);
+      expect(unfinished[0].status).toBe("in_flight");
+      expect(unfinished[0].attempts).toBe(1);
+    });
+
+    test("should keep failed tasks pending until given up on", async () => {
+      await hydrationTasksRepo.markFailed(task, "boom", new Date());
+      let unfinished = await hydrationTasksRepo.findUnfinished();
+      expect(unfinished[0].status).toBe("pending");
+      expect(unfinished[0].last_error).toBe("boom");
+
+      await hydrationTasksRepo.markFailed(task, "boom", null);
+      unfinished = await hydrationTasksRepo.findUnfinished();
+      expect(unfinished.length).toBe(0);
+
+      const failed = await hydrationTasksRepo.findByStatus("failed");
+      expect(failed[0].identifier).toBe(task.identifier);
+    });
+
+    test("should re-open finished tasks when enqueued again", async () => {
+      await hydrationTasksRepo.markDone(task);
+      await hydrationTasksRepo.enqueue(task);
+
+      const unfinished = await hydrationTasksRepo.findUnfinished();
+      expect(unfinished.length).toBe(1);
+      expect(unfinished[0].attempts).toBe(0);
+    });
+  });
 });
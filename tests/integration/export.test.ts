@@ -0,0 +1,276 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "duckdb";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { LABEL_STATE_VIEW_SQL } from "../../src/database/schema.js";
+import { ExportRepository } from "../../src/database/export.repository.js";
+import { LabelsRepository } from "../../src/database/labels.repository.js";
+import { PostsRepository } from "../../src/database/posts.repository.js";
+import { BlobsRepository } from "../../src/database/blobs.repository.js";
+import { ListsRepository } from "../../src/database/lists.repository.js";
+
+const POST_URI = "at://did:plc:user/app.bsky.feed.post/1";
+const PARENT_URI = "at://did:plc:other/app.bsky.feed.post/1";
+const LIST_URI = "at://did:plc:user/app.bsky.graph.list/1";
+const PROFILE_RECORD_URI = "at://did:plc:user/app.bsky.actor.profile/self";
+
+describe("Training Export", () => {
+  let db: Database;
+  let exportRepo: ExportRepository;
+  let outDir: string;
+
+  beforeAll(async () => {
+    db = new Database(":memory:");
+    outDir = await fs.mkdtemp(path.join(os.tmpdir(), "export-test-"));
+
+    await new Promise<void>((resolve, reject) => {
+      db.exec(
+        `
+        CREATE SEQUENCE IF NOT EXISTS labels_id_seq;
+        CREATE TABLE labels (
+          id INTEGER PRIMARY KEY DEFAULT nextval('labels_id_seq'),
+          uri TEXT NOT NULL,
+          cid TEXT,
+          val TEXT NOT NULL,
+          neg BOOLEAN DEFAULT FALSE,
+          cts TIMESTAMP NOT NULL,
+          exp TIMESTAMP,
+          src TEXT NOT NULL,
+          sig_status TEXT,
+          subscription TEXT,
+          UNIQUE(uri, val, cts)
+        );
+
+        CREATE TABLE posts (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          text TEXT,
+          facets JSON,
+          embeds JSON,
+          langs JSON,
+          tags JSON,
+          created_at TIMESTAMP NOT NULL,
+          is_reply BOOLEAN DEFAULT FALSE,
+          reply_parent_uri TEXT,
+          reply_root_uri TEXT,
+          quote_uri TEXT,
+          is_context BOOLEAN DEFAULT FALSE
+        );
+
+        CREATE TABLE profiles (
+          did TEXT PRIMARY KEY,
+          handle TEXT,
+          display_name TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          banner_cid TEXT
+        );
+
+        CREATE TABLE blobs (
+          post_uri TEXT NOT NULL,
+          blob_cid TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          storage_path TEXT,
+          mimetype TEXT,
+          PRIMARY KEY (post_uri, blob_cid)
+        );
+
+        CREATE TABLE profile_blobs (
+          did TEXT NOT NULL,
+          blob_type TEXT NOT NULL,
+          blob_cid TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          phash TEXT,
+          phash_bits UBIGINT,
+          dct_phash TEXT,
+          pdq TEXT,
+          pdq_quality INTEGER,
+          storage_path TEXT,
+          mimetype TEXT,
+          captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (did, blob_type, captured_at)
+        );
+
+        CREATE TABLE lists (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          name TEXT,
+          purpose TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          created_at TIMESTAMP
+        );
+
+        CREATE TABLE feed_generators (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          service_did TEXT,
+          display_name TEXT,
+          description TEXT,
+          avatar_cid TEXT,
+          created_at TIMESTAMP
+        );
+
+        CREATE TABLE starter_packs (
+          uri TEXT PRIMARY KEY,
+          did TEXT NOT NULL,
+          name TEXT,
+          description TEXT,
+          list_uri TEXT,
+          feeds JSON,
+          created_at TIMESTAMP
+        );
+        ${LABEL_STATE_VIEW_SQL}
+      `,
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+
+    const labelsRepo = new LabelsRepository(db);
+    await labelsRepo.insert({ uri: POST_URI, val: "spam", cts: "2025-01-10T00:00:00Z", src: "did:plc:labeler" });
+    await labelsRepo.insert({ uri: POST_URI, val: "porn", cts: "2025-01-11T00:00:00Z", src: "did:plc:labeler" });
+    await labelsRepo.insert({ uri: POST_URI, val: "porn", neg: true, cts: "2025-01-12T00:00:00Z", src: "did:plc:labeler" });
+    await labelsRepo.insert({ uri: "did:plc:other", val: "spam", cts: "2025-02-01T00:00:00Z", src: "did:plc:labeler" });
+    await labelsRepo.insert({ uri: PARENT_URI, val: "spam", cts: "2025-02-15T00:00:00Z", src: "did:plc:labeler" });
+
+    await labelsRepo.insert({ uri: LIST_URI, val: "scam", cts: "2025-03-01T00:00:00Z", src: "did:plc:labeler" });
+    await labelsRepo.insert({ uri: PROFILE_RECORD_URI, val: "scam", cts: "2025-03-02T00:00:00Z", src: "did:plc:labeler" });
+    await labelsRepo.insert({ uri: "at://did:plc:user/com.example.thing/1", val: "scam", cts: "2025-03-03T00:00:00Z", src: "did:plc:labeler" });
+
+    await new ListsRepository(db).insert({
+      uri: LIST_URI,
+      did: "did:plc:user",
+      name: "Crypto deals",
+      purpose: "app.bsky.graph.defs#curatelist",
+    });
+
+    await new PostsRepository(db).insert({
+      uri: POST_URI,
+      did: "did:plc:user",
+      text: "cheap watches",
+      created_at: "2025-01-09T00:00:00Z",
+      is_reply: true,
+      reply_parent_uri: PARENT_URI,
+      reply_root_uri: PARENT_URI,
+    });
+    await new PostsRepository(db).insert({
+      uri: PARENT_URI,
+      did: "did:plc:other",
+      text: "watches?",
+      created_at: "2025-01-08T00:00:00Z",
+      is_context: true,
+    });
+    await new BlobsRepository(db).insert({
+      post_uri: POST_URI,
+      blob_cid: "bafyexport",
+      sha256: "exportsha",
+      pdq: "ab".repeat(32),
+      mimetype: "image/jpeg",
+    });
+
+    exportRepo = new ExportRepository(db);
+  });
+
+  afterAll(async () => {
+    await fs.rm(outDir, { recursive: true, force: true });
+    await new Promise<void>((resolve) => {
+      db.close(() => resolve());
+    });
+  });
+
+  test("should write one JSONL row per label with its post and blobs", async () => {
+    await exportRepo.build({ vals: ["spam"], until: "2025-01-31T00:00:00Z" });
+
+    const file = path.join(outDir, "labels.jsonl");
+    await exportRepo.write(file, "jsonl");
+
+    const rows = (await fs.readFile(file, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    expect(rows.length).toBe(1);
+    expect(rows[0].subject_type).toBe("post");
+    expect(rows[0].post_text).toBe("cheap watches");
+    expect(rows[0].post_blobs[0].pdq).toBe("ab".repeat(32));
+    expect(rows[0].post_reply_parent_uri).toBe(PARENT_URI);
+    expect(rows[0].post_is_context).toBe(false);
+    expect(await exportRepo.blobCids()).toEqual(["bafyexport"]);
+  });
+
+  test("should flag posts stored only as context", async () => {
+    await exportRepo.build({ vals: ["spam"], since: "2025-02-10T00:00:00Z" });
+
+    const file = path.join(outDir, "context.jsonl");
+    await exportRepo.write(file, "jsonl");
+
+    const rows = (await fs.readFile(file, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    expect(rows.length).toBe(1);
+    expect(rows[0]).toMatchObject({
+      uri: PARENT_URI,
+      post_hydrated: true,
+      post_is_context: true,
+      post_blobs: null,
+    });
+  });
+
+  test("should type subjects by collection and join their record table", async () => {
+    await exportRepo.build({ vals: ["scam"] });
+
+    const file = path.join(outDir, "records.jsonl");
+    await exportRepo.write(file, "jsonl");
+
+    const rows = (await fs.readFile(file, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    expect(rows.map((row) => row.subject_type)).toEqual([
+      "list",
+      "profile",
+      "record",
+    ]);
+    expect(rows[0]).toMatchObject({
+      record_hydrated: true,
+      post_hydrated: false,
+      record_name: "Crypto deals",
+      list_purpose: "app.bsky.graph.defs#curatelist",
+    });
+    expect(rows[1].subject_did).toBe("did:plc:user");
+    expect((await exportRepo.counts()).records).toBe(1);
+  });
+
+  test("should only include labels in effect in effective mode", async () => {
+    await exportRepo.build({ effectiveOnly: true });
+    const counts = await exportRepo.counts();
+
+    expect(counts.rows).toBe(6);
+    expect(counts.posts).toBe(2);
+    expect(counts.profiles).toBe(0);
+    expect(counts.post_blobs).toBe(1);
+  });
+
+  test("should keep every label event otherwise", async () => {
+    await exportRepo.build({});
+    const counts = await exportRepo.counts();
+
+    const file = path.join(outDir, "labels.parquet");
+    await exportRepo.write(file, "parquet");
+
+    expect(counts.rows).toBe(8);
+    expect((await fs.stat(file)).size).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "duckdb";
+import { IdentityService } from "../../src/identity/identity.service.js";
+import { DidDocument, DidResolver } from "../../src/identity/did-resolver.js";
+import { claimedHandle } from "../../src/identity/handle-resolver.js";
+import { HandleHistoryRepository } from "../../src/database/handle-history.repository.js";
+
+const DID = "did:plc:evader";
+
+function didDocument(handle: string): DidDocument {
+  return {
+    id: DID,
+    alsoKnownAs: [`at://${handle}`],
+    service: [
+      {
+        id: "#atproto_pds",
+        type: "AtprotoPersonalDataServer",
+        serviceEndpoint: "https://pds.example.com",
+      },
+    ],
+  };
+}
+
+// Serves whatever document the test sets, counting lookups
+class StubResolver extends DidResolver {
+  doc: DidDocument | null = null;
+  lookups = 0;
+
+  async resolve(): Promise<DidDocument | null> {
+    this.lookups++;
+    return this.doc;
+  }
+}
+
+describe("IdentityService", () => {
+  let db: Database;
+  let resolver: StubResolver;
+  let handles: Record<string, string>;
+
+  const service = (ttl = 60000) =>
+    new IdentityService(db, resolver, async (h) => handles[h] ?? null, ttl);
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    resolver = new StubResolver();
+    handles = {};
+
+    await new Promise<void>((resolve, reject) => {
+      db.exec(
+        `
+        CREATE TABLE identities (
+          did TEXT PRIMARY KEY,
+          handle TEXT,
+          handle_verified BOOLEAN NOT NULL DEFAULT FALSE,
+          pds TEXT,
+          resolved_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE handle_history (
+          did TEXT NOT NULL,
+          handle TEXT NOT NULL,
+          verified BOOLEAN NOT NULL DEFAULT FALSE,
+          first_seen TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          last_seen TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (did, handle)
+        );
+      `,
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      db.close(() => resolve());
+    });
+  });
+
+  test("should read the claimed handle from alsoKnownAs", () => {
+    expect(claimedHandle(["https://example.com", "at://Alice.Example.com"])).toBe(
+      "alice.example.com"
+    );
+    expect(claimedHandle(["at://not a handle"])).toBeNull();
+    expect(claimedHandle(undefined)).toBeNull();
+  });
+
+  test("should verify the handle in both directions", async () => {
+    resolver.doc = didDocument("alice.example.com");
+    handles["alice.example.com"] = DID;
+
+    const identity = await service().getIdentity(DID);
+    expect(identity?.handle).toBe("alice.example.com");
+    expect(identity?.handle_verified).toBe(true);
+    expect(identity?.pds).toBe("https://pds.example.com");
+
+    // Claiming a handle that points elsewhere is not enough
+    resolver.doc = didDocument("bob.example.com");
+    handles["bob.example.com"] = "did:plc:bob";
+    expect(await service().getHandle("did:plc:other")).toBeNull();
+
+    const spoofed = await service().getIdentity(DID, true);
+    expect(spoofed?.handle).toBe("bob.example.com");
+    expect(spoofed?.handle_verified).toBe(false);
+  });
+
+  test("should serve stored identities until the TTL passes", async () => {
+    resolver.doc = didDocument("alice.example.com");
+    handles["alice.example.com"] = DID;
+
+    await service().getIdentity(DID);
+    await service().getIdentity(DID);
+    expect(resolver.lookups).toBe(1);
+
+    await service(0).getIdentity(DID);
+    expect(resolver.lookups).toBe(2);
+  });
+
+  test("should record every handle the account rotates through", async () => {
+    for (const handle of ["first.example.com", "second.example.com"]) {
+      resolver.doc = didDocument(handle);
+      handles[handle] = DID;
+      await service().getIdentity(DID, true);
+    }
+
+    const history = await new HandleHistoryRepository(db).findByDid(DID);
+    expect(history.map((h) => h.handle)).toEqual([
+      "first.example.com",
+      "second.example.com",
+    ]);
+    expect(await service().getHandle(DID)).toBe("second.example.com");
+  });
+
+  test("should keep the stored identity when the DID stops resolving", async () => {
+    resolver.doc = didDocument("alice.example.com");
+    handles["alice.example.com"] = DID;
+    await service().getIdentity(DID);
+
+    resolver.doc = null;
+    const identity = await service().getIdentity(DID, true);
+    expect(identity?.handle).toBe("alice.example.com");
+  });
+
+  test("should resolve a handle only to the DID that claims it", async () => {
+    resolver.doc = didDocument("alice.example.com");
+    handles["alice.example.com"] = DID;
+    handles["squatted.example.com"] = DID;
+
+    expect(await service().resolveHandle("Alice.example.com")).toBe(DID);
+    expect(await service().resolveHandle("squatted.example.com")).toBeNull();
+    expect(await service().resolveHandle("unknown.example.com")).toBeNull();
+  });
+});
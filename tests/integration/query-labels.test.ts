@@ -0,0 +1,166 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "duckdb";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { config } from "../../src/config/index.js";
+import { LabelsRepository } from "../../src/database/labels.repository.js";
+import {
+  labelerServiceUrl,
+  QueryLabelsSource,
+} from "../../src/firehose/query-labels.js";
+
+describe("QueryLabelsSource", () => {
+  let db: Database;
+  let server: Server;
+  let wssUrl: string;
+  let labelsRepo: LabelsRepository;
+  const requests: URL[] = [];
+
+  // Two pages of labels, then an empty page
+  const pages: Record<string, object> = {
+    "": {
+      cursor: "2",
+      labels: [1, 2].map((n) => ({
+        ver: 1,
+        src: "did:plc:labeler",
+        uri: `at://did:plc:user/app.bsky.feed.post/${n}`,
+        val: "spam",
+        cts: "2025-01-15T12:00:00Z",
+      })),
+    },
+    "2": {
+      cursor: "3",
+      labels: [
+        {
+          ver: 1,
+          src: "did:plc:labeler",
+          uri: "did:plc:user",
+          val: "spam",
+          cts: "2025-01-15T12:00:00Z",
+        },
+        { src: "did:plc:labeler", val: "spam" },
+        {
+          src: "did:plc:labeler",
+          uri: "did:plc:malformed",
+          val: "spam",
+          cts: "not a timestamp",
+        },
+      ],
+    },
+    "3": { labels: [] },
+  };
+
+  beforeAll(async () => {
+    config.labeler.signaturePolicy = "off";
+
+    db = new Database(":memory:");
+    await new Promise<void>((resolve, reject) => {
+      db.exec(
+        `
+        CREATE SEQUENCE IF NOT EXISTS labels_id_seq;
+        CREATE TABLE labels (
+          id INTEGER PRIMARY KEY DEFAULT nextval('labels_id_seq'),
+          uri TEXT NOT NULL,
+          cid TEXT,
+          val TEXT NOT NULL,
+          neg BOOLEAN DEFAULT FALSE,
+          cts TIMESTAMP NOT NULL,
+          exp TIMESTAMP,
+          src TEXT NOT NULL,
+          sig_status TEXT,
+          subscription TEXT,
+          UNIQUE(uri, val, cts)
+        );
+      `,
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+    labelsRepo = new LabelsRepository(db);
+
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, "http://localhost");
+      requests.push(url);
+
+      if (url.pathname !== "/xrpc/com.atproto.label.queryLabels") {
+        res.writeHead(404).end();
+        return;
+      }
+
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(pages[url.searchParams.get("cursor") ?? ""]));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    const { port } = server.address() as AddressInfo;
+    wssUrl = `ws://localhost:${port}/xrpc/com.atproto.label.subscribeLabels`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await new Promise<void>((resolve) => {
+      db.close(() => resolve());
+    });
+  });
+
+  test("should derive the service URL from the firehose URL", () => {
+    expect(
+      labelerServiceUrl(
+        "wss://labeler.example.com/xrpc/com.atproto.label.subscribeLabels"
+      )
+    ).toBe("https://labeler.example.com");
+    expect(labelerServiceUrl("ws://localhost:1234/x")).toBe(
+      "http://localhost:1234"
+    );
+  });
+
+  test("should page through queryLabels and store valid labels", async () => {
+    const source = new QueryLabelsSource(wssUrl, labelsRepo);
+    const emitted: string[] = [];
+    source.on("label", (label) => emitted.push(label.uri));
+
+    const result = await source.run({
+      uriPatterns: ["at://did:plc:user/*", "did:plc:user"],
+      sources: ["did:plc:labeler"],
+      limit: 100,
+    });
+
+    expect(result).toEqual({ pages: 3, fetched: 5, stored: 3, cursor: "3" });
+    expect(emitted).toEqual([
+      "at://did:plc:user/app.bsky.feed.post/1",
+      "at://did:plc:user/app.bsky.feed.post/2",
+      "did:plc:user",
+    ]);
+
+    const first = requests[0].searchParams;
+    expect(first.getAll("uriPatterns")).toEqual([
+      "at://did:plc:user/*",
+      "did:plc:user",
+    ]);
+    expect(first.getAll("sources")).toEqual(["did:plc:labeler"]);
+    expect(first.get("limit")).toBe("100");
+    expect(requests.map((r) => r.searchParams.get("cursor"))).toEqual([
+      null,
+      "2",
+      "3",
+    ]);
+
+    const stored = await labelsRepo.findByUri("did:plc:user");
+    expect(stored).toHaveLength(1);
+    expect(stored[0].subscription).toBe(source.subscription);
+  });
+
+  test("should resume from a cursor without duplicating labels", async () => {
+    const source = new QueryLabelsSource(wssUrl, labelsRepo);
+    const result = await source.run({
+      uriPatterns: ["*"],
+      sources: [],
+      cursor: "2",
+    });
+
+    expect(result.pages).toBe(2);
+    expect(await labelsRepo.findByUri("did:plc:user")).toHaveLength(1);
+  });
+});
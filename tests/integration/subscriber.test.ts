@@ -0,0 +1,242 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "duckdb";
+import { WebSocket, WebSocketServer } from "ws";
+import { AddressInfo } from "net";
+import { encode } from "@atcute/cbor";
+import { config } from "../../src/config/index.js";
+import { LabelsRepository } from "../../src/database/labels.repository.js";
+import { SubscriptionStateRepository } from "../../src/database/subscription-state.repository.js";
+import { FirehoseEventsRepository } from "../../src/database/firehose-events.repository.js";
+import { FirehoseGapsRepository } from "../../src/database/firehose-gaps.repository.js";
+import { FirehoseSubscriber } from "../../src/firehose/subscriber.js";
+import { CapturedFrame } from "../../src/firehose/capture.js";
+
+function labelFrame(seq: number, ctses = ["2025-01-15T12:00:00Z"]): Buffer {
+  return Buffer.concat([
+    encode({ op: 1, t: "#labels" }),
+    encode({
+      seq,
+      labels: ctses.map((cts, i) => ({
+        src: "did:plc:labeler",
+        uri: `at://did:plc:user/app.bsky.feed.post/${seq}${i > 0 ? `-${i}` : ""}`,
+        val: "spam",
+        cts,
+      })),
+    }),
+  ]);
+}
+
+describe("FirehoseSubscriber", () => {
+  let db: Database;
+  let server: WebSocketServer;
+  let url: string;
+  let labelsRepo: LabelsRepository;
+  let gapsRepo: FirehoseGapsRepository;
+  // Sequence numbers the fake labeler holds; the live stream skips 3 and 4
+  let live = [1, 2, 5, 6];
+  // Frames sent for a sequence number instead of a single valid label
+  const frames = new Map<number, Buffer>();
+  // Replaces the live stream when set
+  let onConnect: ((socket: WebSocket, cursor: number) => void) | null = null;
+
+  const createSubscriber = (replay?: { from: number; to: number }) =>
+    new FirehoseSubscriber(
+      url,
+      new SubscriptionStateRepository(db),
+      new FirehoseEventsRepository(db),
+      gapsRepo,
+      replay
+    );
+
+  beforeAll(async () => {
+    config.labeler.signaturePolicy = "off";
+
+    db = new Database(":memory:");
+    await new Promise<void>((resolve, reject) => {
+      db.exec(
+        `
+        CREATE SEQUENCE IF NOT EXISTS labels_id_seq;
+        CREATE TABLE labels (
+          id INTEGER PRIMARY KEY DEFAULT nextval('labels_id_seq'),
+          uri TEXT NOT NULL,
+          cid TEXT,
+          val TEXT NOT NULL,
+          neg BOOLEAN DEFAULT FALSE,
+          cts TIMESTAMP NOT NULL,
+          exp TIMESTAMP,
+          src TEXT NOT NULL,
+          sig_status TEXT,
+          subscription TEXT,
+          UNIQUE(uri, val, cts)
+        );
+
+        CREATE TABLE subscription_state (
+          subscription TEXT PRIMARY KEY,
+          cursor BIGINT NOT NULL,
+          updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE SEQUENCE IF NOT EXISTS firehose_events_id_seq;
+        CREATE TABLE firehose_events (
+          id INTEGER PRIMARY KEY DEFAULT nextval('firehose_events_id_seq'),
+          subscription TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          name TEXT NOT NULL,
+          message TEXT,
+          cursor BIGINT,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE SEQUENCE IF NOT EXISTS firehose_gaps_id_seq;
+        CREATE TABLE firehose_gaps (
+          id INTEGER PRIMARY KEY DEFAULT nextval('firehose_gaps_id_seq'),
+          subscription TEXT NOT NULL,
+          from_seq BIGINT NOT NULL,
+          to_seq BIGINT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'open',
+          detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          filled_at TIMESTAMP
+        );
+      `,
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+
+    labelsRepo = new LabelsRepository(db);
+    gapsRepo = new FirehoseGapsRepository(db);
+
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (socket, req) => {
+      const cursor = Number(new URL(req.url!, "ws://localhost").searchParams.get("cursor") ?? 0);
+      if (onConnect) {
+        onConnect(socket, cursor);
+        return;
+      }
+      for (const seq of live.filter((s) => s > cursor)) {
+        socket.send(frames.get(seq) ?? labelFrame(seq));
+      }
+    });
+    await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/xrpc/com.atproto.label.subscribeLabels`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await new Promise<void>((resolve) => {
+      db.close(() => resolve());
+    });
+  });
+
+  test("should record skipped sequence numbers as a gap", async () => {
+    const subscriber = createSubscriber();
+    const stored: string[] = [];
+    subscriber.on("label", (label) => stored.push(label.uri));
+
+    await subscriber.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await subscriber.stop();
+
+    const gaps = await gapsRepo.findOpen(subscriber.subscription);
+
+    expect(stored.length).toBe(4);
+    expect(gaps.map((g) => [g.from_seq, g.to_seq])).toEqual([[2, 5]]);
+  });
+
+  test("should fill a gap by replaying from its start", async () => {
+    live = [1, 2, 3, 4, 5, 6];
+    const [gap] = await gapsRepo.findOpen();
+    const subscriber = createSubscriber({ from: gap.from_seq, to: gap.to_seq });
+
+    const complete = await new Promise<boolean>((resolve) => {
+      subscriber.once("replayed", resolve);
+      subscriber.start();
+    });
+    await subscriber.stop();
+
+    const replayed = await labelsRepo.findByUri("at://did:plc:user/app.bsky.feed.post/3");
+    const cursor = await new SubscriptionStateRepository(db).getCursor(subscriber.subscription);
+
+    expect(complete).toBe(true);
+    expect(replayed.length).toBe(1);
+    expect(cursor).toBe(6);
+  });
+
+  test("should play captured frames through the label path", async () => {
+    const frames: CapturedFrame[] = [100, 101].map((seq, i) => ({
+      timestamp: 1000 + i * 10,
+      data: labelFrame(seq),
+    }));
+    async function* capture() {
+      yield* frames;
+    }
+
+    const subscriber = createSubscriber();
+    const stored: string[] = [];
+    subscriber.on("label", (label) => stored.push(label.uri));
+
+    await subscriber.playCapture(capture(), 100);
+
+    const cursor = await new SubscriptionStateRepository(db).getCursor(subscriber.subscription);
+
+    expect(stored).toEqual([
+      "at://did:plc:user/app.bsky.feed.post/100",
+      "at://did:plc:user/app.bsky.feed.post/101",
+    ]);
+    expect(cursor).toBe(6);
+  });
+
+  test("should drop malformed labels and commit the rest of the batch", async () => {
+    live = [1, 2, 3, 4, 5, 6, 7];
+    frames.set(
+      7,
+      labelFrame(7, ["2025-01-15T12:00:00Z", "not a timestamp", "2025-01-15T12:01:00Z"])
+    );
+
+    const subscriber = createSubscriber();
+    const stored: string[] = [];
+    subscriber.on("label", (label) => stored.push(label.uri));
+
+    await subscriber.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await subscriber.stop();
+
+    const cursor = await new SubscriptionStateRepository(db).getCursor(subscriber.subscription);
+
+    expect(stored).toEqual([
+      "at://did:plc:user/app.bsky.feed.post/7",
+      "at://did:plc:user/app.bsky.feed.post/7-2",
+    ]);
+    expect(cursor).toBe(7);
+  });
+
+  test("should commit buffered labels before resetting a future cursor", async () => {
+    onConnect = (socket, cursor) => {
+      if (cursor === 0) return;
+      socket.send(labelFrame(cursor + 1));
+      socket.send(
+        Buffer.concat([
+          encode({ op: -1 }),
+          encode({ error: "FutureCursor", message: "Cursor in the future" }),
+        ])
+      );
+    };
+
+    const subscriber = createSubscriber();
+    try {
+      await subscriber.start();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await subscriber.stop();
+    } finally {
+      onConnect = null;
+    }
+
+    const labels = await labelsRepo.findByUri("at://did:plc:user/app.bsky.feed.post/8");
+    const cursor = await new SubscriptionStateRepository(db).getCursor(subscriber.subscription);
+
+    expect(labels.length).toBe(1);
+    expect(cursor).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "duckdb";
+import { LabelsRepository } from "../../src/database/labels.repository.js";
+import { SubscriptionStateRepository } from "../../src/database/subscription-state.repository.js";
+
+describe("SubscriptionStateRepository", () => {
+  let db: Database;
+  let labelsRepo: LabelsRepository;
+  let stateRepo: SubscriptionStateRepository;
+
+  beforeAll(async () => {
+    db = new Database(":memory:");
+
+    await new Promise<void>((resolve, reject) => {
+      db.exec(
+        `
+        CREATE SEQUENCE IF NOT EXISTS labels_id_seq;
+        CREATE TABLE labels (
+          id INTEGER PRIMARY KEY DEFAULT nextval('labels_id_seq'),
+          uri TEXT NOT NULL,
+          cid TEXT,
+          val TEXT NOT NULL,
+          neg BOOLEAN DEFAULT FALSE,
+          cts TIMESTAMP NOT NULL,
+          exp TIMESTAMP,
+          src TEXT NOT NULL,
+          sig_status TEXT,
+          subscription TEXT,
+          UNIQUE(uri, val, cts)
+        );
+
+        CREATE TABLE subscription_state (
+          subscription TEXT PRIMARY KEY,
+          cursor BIGINT NOT NULL,
+          updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+      `,
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+
+    labelsRepo = new LabelsRepository(db);
+    stateRepo = new SubscriptionStateRepository(db);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      db.close(() => resolve());
+    });
+  });
+
+  test("should have no cursor for a new subscription", async () => {
+    expect(await stateRepo.getCursor("labeler.example.com")).toBeNull();
+  });
+
+  test("should commit labels together with the cursor", async () => {
+    await stateRepo.commitBatch("labeler.example.com", 42, [
+      {
+        uri: "at://did:plc:user/app.bsky.feed.post/1",
+        val: "spam",
+        cts: "2025-01-15T12:00:00Z",
+        src: "did:plc:labeler",
+        subscription: "labeler.example.com",
+      },
+    ]);
+
+    const labels = await labelsRepo.findByUri("at://did:plc:user/app.bsky.feed.post/1");
+
+    expect(await stateRepo.getCursor("labeler.example.com")).toBe(42);
+    expect(labels.length).toBe(1);
+    expect(labels[0].subscription).toBe("labeler.example.com");
+  });
+
+  test("should leave labels and cursor untouched when a batch fails", async () => {
+    const batch = stateRepo.commitBatch("labeler.example.com", 50, [
+      {
+        uri: "at://did:plc:user/app.bsky.feed.post/2",
+        val: "spam",
+        cts: "2025-01-15T12:00:00Z",
+        src: "did:plc:labeler",
+      },
+      {
+        uri: "at://did:plc:user/app.bsky.feed.post/3",
+        val: "spam",
+        cts: "not a timestamp",
+        src: "did:plc:labeler",
+      },
+    ]);
+
+    await expect(batch).rejects.toThrow();
+    expect(await stateRepo.getCursor("labeler.example.com")).toBe(42);
+    expect(
+      await labelsRepo.findByUri("at://did:plc:user/app.bsky.feed.post/2")
+    ).toEqual([]);
+  });
+});
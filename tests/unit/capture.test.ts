@@ -0,0 +1,69 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { CaptureRecorder, openCapture } from "../../src/firehose/capture.js";
+
+describe("Firehose Capture", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "capture-test-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("should read back recorded frames in order", async () => {
+    const file = path.join(dir, "nested", "labeler.cap");
+    const recorder = new CaptureRecorder(file, {
+      url: "wss://labeler.example.com/xrpc/com.atproto.label.subscribeLabels",
+      startedAt: "2025-01-15T12:00:00.000Z",
+    });
+
+    recorder.append(Buffer.from([1, 2, 3]), 1000);
+    recorder.append(Buffer.alloc(0), 1500);
+    recorder.append(Buffer.from("frame"), 2000);
+    await recorder.close();
+
+    const capture = await openCapture(file);
+    const frames = [];
+    for await (const frame of capture.frames()) {
+      frames.push(frame);
+    }
+
+    expect(capture.header.url).toContain("labeler.example.com");
+    expect(frames.map((f) => f.timestamp)).toEqual([1000, 1500, 2000]);
+    expect(frames[0].data).toEqual(Buffer.from([1, 2, 3]));
+    expect(frames[2].data.toString()).toBe("frame");
+  });
+
+  test("should stop at a truncated last record", async () => {
+    const file = path.join(dir, "truncated.cap");
+    const recorder = new CaptureRecorder(file, {
+      url: "wss://labeler.example.com",
+      startedAt: "2025-01-15T12:00:00.000Z",
+    });
+    recorder.append(Buffer.from("complete"), 1000);
+    recorder.append(Buffer.from("cut short"), 2000);
+    await recorder.close();
+
+    const { size } = await fs.stat(file);
+    await fs.truncate(file, size - 3);
+
+    const frames = [];
+    for await (const frame of (await openCapture(file)).frames()) {
+      frames.push(frame);
+    }
+
+    expect(frames.length).toBe(1);
+  });
+
+  test("should reject files that are not captures", async () => {
+    const file = path.join(dir, "other.bin");
+    await fs.writeFile(file, "not a capture");
+
+    await expect(openCapture(file)).rejects.toThrow("Not a firehose capture file");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConfigError, config, parseConfig } from "../../src/config/index.js";
+import { reloadConfig } from "../../src/config/reload.js";
+import { LabelFilter, reloadFilterRules } from "../../src/firehose/filter.js";
+import { LabelEvent } from "../../src/firehose/decoder.js";
+
+const env = {
+  BSKY_HANDLE: "handle",
+  BSKY_PASSWORD: "password",
+  WSS_URL: "wss://labeler.example.com/xrpc/com.atproto.label.subscribeLabels",
+};
+
+const label: LabelEvent = {
+  src: "did:plc:labeler",
+  uri: "at://did:plc:user/app.bsky.feed.post/123",
+  val: "spam",
+  cts: "2025-01-15T12:00:00Z",
+};
+
+describe("Config", () => {
+  afterAll(() => {
+    reloadFilterRules(config.filtering);
+  });
+
+  describe("parseConfig", () => {
+    test("should parse a valid environment", () => {
+      const parsed = parseConfig({ ...env, LOG_LEVEL: "debug" });
+      expect(parsed.logging.level).toBe("debug");
+      expect(parsed.labeler.wssUrls).toEqual([env.WSS_URL]);
+      expect(parsed.api.host).toBe("127.0.0.1");
+    });
+
+    test("should name every invalid field", () => {
+      const invalid = () =>
+        parseConfig({ ...env, LOG_LEVEL: "loud", HYDRATION_CONCURRENCY: "0" });
+
+      expect(invalid).toThrow(ConfigError);
+      expect(invalid).toThrow(/hydration\.concurrency/);
+      expect(invalid).toThrow(/logging\.level/);
+    });
+
+    test("should parse per-label hydration policies", () => {
+      const parsed = parseConfig({
+        ...env,
+        HYDRATION_POLICIES: "csam:hashes-only, spam:none",
+      });
+      expect(parsed.hydration.policies).toEqual({
+        csam: "hashes-only",
+        spam: "none",
+      });
+
+      expect(() =>
+        parseConfig({ ...env, HYDRATION_POLICIES: "spam:some" })
+      ).toThrow(/hydration\.policies\.spam/);
+      expect(() => parseConfig({ ...env, HYDRATION_POLICIES: "spam" })).toThrow(
+        /hydration\.policies\.spam/
+      );
+    });
+
+    test("should reject the same labeler host twice", () => {
+      expect(() =>
+        parseConfig({ ...env, WSS_URL: `${env.WSS_URL},${env.WSS_URL}` })
+      ).toThrow(/same labeler host/);
+    });
+  });
+
+  describe("reloadFilterRules", () => {
+    test("should swap the rules of config-backed filters", () => {
+      const filter = new LabelFilter();
+
+      reloadFilterRules({ captureLabels: ["scam"] });
+      expect(filter.shouldCapture(label)).toBe(false);
+
+      reloadFilterRules({ captureLabels: ["spam"] });
+      expect(filter.shouldCapture(label)).toBe(true);
+    });
+
+    test("should keep the previous rules when the rules file is invalid", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "filter-rules-"));
+      const file = path.join(dir, "rules.json");
+      fs.writeFileSync(file, JSON.stringify({ rules: [{ action: "keep" }] }));
+
+      try {
+        const filter = new LabelFilter();
+        reloadFilterRules({ captureLabels: ["scam"] });
+
+        expect(() => reloadFilterRules({ rulesFile: file })).toThrow(
+          /rules\.0\.action/
+        );
+        expect(() =>
+          reloadFilterRules({ rulesFile: path.join(dir, "missing.json") })
+        ).toThrow();
+        expect(filter.shouldCapture(label)).toBe(false);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("reloadConfig", () => {
+    test("should apply a valid config", () => {
+      expect(reloadConfig()).toBe(true);
+    });
+  });
+});
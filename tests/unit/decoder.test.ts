@@ -1,11 +1,77 @@
 import { describe, test, expect } from "bun:test";
+import { encode } from "@atcute/cbor";
 import {
+  decodeFirehoseMessage,
   extractLabelsFromMessage,
   validateLabel,
   LabelEvent,
 } from "../../src/firehose/decoder.js";
 
+function frame(header: object, body: object): Buffer {
+  return Buffer.concat([encode(header), encode(body)]);
+}
+
 describe("Firehose Decoder", () => {
+  describe("decodeFirehoseMessage", () => {
+    test("should decode label frames with their seq", () => {
+      const decoded = decodeFirehoseMessage(
+        frame(
+          { op: 1, t: "#labels" },
+          {
+            seq: 7,
+            labels: [
+              {
+                src: "did:plc:labeler",
+                uri: "at://did:plc:user/app.bsky.feed.post/123",
+                val: "spam",
+                cts: "2025-01-15T12:00:00Z",
+              },
+            ],
+          }
+        )
+      );
+
+      expect(decoded?.kind).toBe("labels");
+      if (decoded?.kind === "labels") {
+        expect(decoded.seq).toBe(7);
+        expect(decoded.labels[0].val).toBe("spam");
+      }
+    });
+
+    test("should decode info frames", () => {
+      const decoded = decodeFirehoseMessage(
+        frame({ op: 1, t: "#info" }, { name: "OutdatedCursor", message: "too old" })
+      );
+
+      expect(decoded).toEqual({
+        kind: "info",
+        name: "OutdatedCursor",
+        message: "too old",
+      });
+    });
+
+    test("should decode error frames", () => {
+      const decoded = decodeFirehoseMessage(
+        frame({ op: -1 }, { error: "FutureCursor", message: "cursor in the future" })
+      );
+
+      expect(decoded).toEqual({
+        kind: "error",
+        error: "FutureCursor",
+        message: "cursor in the future",
+      });
+    });
+
+    test("should pass through unknown frame types", () => {
+      const decoded = decodeFirehoseMessage(frame({ op: 1, t: "#other" }, {}));
+      expect(decoded).toEqual({ kind: "unknown", header: { op: 1, t: "#other" } });
+    });
+
+    test("should return null for undecodable data", () => {
+      expect(decodeFirehoseMessage(Buffer.from([0xff]))).toBeNull();
+    });
+  });
+
   describe("extractLabelsFromMessage", () => {
     test("should extract labels from valid message", () => {
       const message = {
@@ -130,5 +196,20 @@ describe("Firehose Decoder", () => {
 
       expect(validateLabel(label)).toBe(false);
     });
+
+    test("should reject label with a malformed cts or exp", () => {
+      const label: LabelEvent = {
+        src: "did:plc:labeler",
+        uri: "at://did:plc:user/app.bsky.feed.post/123",
+        val: "spam",
+        cts: "2025-01-15T12:00:00.123+02:00",
+      };
+
+      expect(validateLabel(label)).toBe(true);
+      expect(validateLabel({ ...label, cts: "yesterday" })).toBe(false);
+      expect(validateLabel({ ...label, cts: "2025-02-30T00:00:00Z" })).toBe(false);
+      expect(validateLabel({ ...label, cts: "2025-01-15T12:00Z" })).toBe(false);
+      expect(validateLabel({ ...label, exp: "2025" })).toBe(false);
+    });
   });
 });
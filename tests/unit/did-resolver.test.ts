@@ -0,0 +1,127 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import {
+  DidResolver,
+  didWebDocumentUrl,
+} from "../../src/identity/did-resolver.js";
+
+function didDocument(did: string, pds = "https://pds.example.com/") {
+  return {
+    id: did,
+    verificationMethod: [
+      {
+        id: `${did}#atproto_label`,
+        type: "Multikey",
+        publicKeyMultibase: "zQ3sh",
+      },
+    ],
+    service: [
+      {
+        id: "#atproto_pds",
+        type: "AtprotoPersonalDataServer",
+        serviceEndpoint: pds,
+      },
+    ],
+  };
+}
+
+describe("DID Resolver", () => {
+  const originalFetch = globalThis.fetch;
+  let requested: string[] = [];
+
+  function mockFetch(respond: (url: string) => Response) {
+    requested = [];
+    globalThis.fetch = (async (input: string | URL) => {
+      const url = input.toString();
+      requested.push(url);
+      return respond(url);
+    }) as unknown as typeof fetch;
+  }
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should map did:web DIDs to their document URL", () => {
+    expect(didWebDocumentUrl("did:web:example.com")).toBe(
+      "https://example.com/.well-known/did.json"
+    );
+    expect(didWebDocumentUrl("did:web:localhost%3A8080")).toBe(
+      "https://localhost:8080/.well-known/did.json"
+    );
+    expect(didWebDocumentUrl("did:web:example.com:users:alice")).toBe(
+      "https://example.com/users/alice/did.json"
+    );
+  });
+
+  test("should resolve did:plc through the PLC directory and cache it", async () => {
+    mockFetch(() => Response.json(didDocument("did:plc:user")));
+    const resolver = new DidResolver("https://plc.test", 60000);
+
+    expect(await resolver.resolvePds("did:plc:user")).toBe(
+      "https://pds.example.com"
+    );
+    await resolver.resolve("did:plc:user");
+
+    expect(requested).toEqual(["https://plc.test/did:plc:user"]);
+  });
+
+  test("should share concurrent lookups and refresh on request", async () => {
+    mockFetch(() => Response.json(didDocument("did:plc:user")));
+    const resolver = new DidResolver("https://plc.test", 60000);
+
+    await Promise.all([
+      resolver.resolve("did:plc:user"),
+      resolver.resolve("did:plc:user"),
+    ]);
+    expect(requested).toHaveLength(1);
+
+    await resolver.resolve("did:plc:user", true);
+    expect(requested).toHaveLength(2);
+  });
+
+  test("should expire cached documents after the TTL", async () => {
+    mockFetch(() => Response.json(didDocument("did:plc:user")));
+    const resolver = new DidResolver("https://plc.test", 0);
+
+    await resolver.resolve("did:plc:user");
+    await resolver.resolve("did:plc:user");
+    expect(requested).toHaveLength(2);
+  });
+
+  test("should resolve did:web from the domain", async () => {
+    mockFetch(() =>
+      Response.json(didDocument("did:web:example.com", "https://self.hosted"))
+    );
+    const resolver = new DidResolver("https://plc.test", 60000);
+
+    expect(await resolver.resolvePds("did:web:example.com")).toBe(
+      "https://self.hosted"
+    );
+    expect(requested).toEqual(["https://example.com/.well-known/did.json"]);
+  });
+
+  test("should find verification methods by fragment", async () => {
+    mockFetch(() => Response.json(didDocument("did:plc:labeler")));
+    const resolver = new DidResolver("https://plc.test", 60000);
+
+    const doc = await resolver.resolve("did:plc:labeler");
+    expect(
+      resolver.findVerificationMethod(doc!, "#atproto_label")?.type
+    ).toBe("Multikey");
+    expect(resolver.findVerificationMethod(doc!, "#other")).toBeNull();
+  });
+
+  test("should return null for unresolvable DIDs", async () => {
+    mockFetch((url) =>
+      url.includes("did:plc:missing")
+        ? new Response("not found", { status: 404 })
+        : Response.json(didDocument("did:plc:someone-else"))
+    );
+    const resolver = new DidResolver("https://plc.test", 60000);
+
+    expect(await resolver.resolve("did:plc:missing")).toBeNull();
+    expect(await resolver.resolve("did:plc:mismatch")).toBeNull();
+    expect(await resolver.resolve("did:key:z123")).toBeNull();
+    expect(requested).toHaveLength(2);
+  });
+});
@@ -1,7 +1,24 @@
 import { describe, test, expect, beforeEach } from "bun:test";
-import { LabelFilter } from "../../src/firehose/filter.js";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  LabelFilter,
+  loadFilterRules,
+  subjectKindOf,
+} from "../../src/firehose/filter.js";
 import { LabelEvent } from "../../src/firehose/decoder.js";
 
+function label(overrides: Partial<LabelEvent> = {}): LabelEvent {
+  return {
+    src: "did:plc:labeler",
+    uri: "at://did:plc:user/app.bsky.feed.post/123",
+    val: "spam",
+    cts: "2025-01-15T12:00:00Z",
+    ...overrides,
+  };
+}
+
 describe("Label Filter", () => {
   describe("with no filtering (capturing all labels)", () => {
     let filter: LabelFilter;
@@ -65,4 +82,109 @@ describe("Label Filter", () => {
       expect(labels?.length).toBe(3);
     });
   });
+
+  describe("with filter rules", () => {
+    test("should exclude deny-listed values and capture the rest", () => {
+      const filter = new LabelFilter({
+        rules: [{ name: "no-hide", action: "exclude", val: "!hide" }],
+      });
+
+      expect(filter.evaluate(label({ val: "!hide" }))).toEqual({
+        capture: false,
+        rule: "no-hide",
+      });
+      expect(filter.evaluate(label())).toEqual({
+        capture: true,
+        rule: "default",
+      });
+    });
+
+    test("should match values by glob and regex", () => {
+      const filter = new LabelFilter({
+        default: "exclude",
+        rules: [
+          { action: "include", val: "spam*" },
+          { name: "scams", action: "include", valRegex: "^scam-(link|bot)$" },
+        ],
+      });
+
+      expect(filter.evaluate(label({ val: "spam-link" }))).toEqual({
+        capture: true,
+        rule: "rules[0]",
+      });
+      expect(filter.shouldCapture(label({ val: "scam-bot" }))).toBe(true);
+      expect(filter.shouldCapture(label({ val: "scam-other" }))).toBe(false);
+      expect(filter.shouldCapture(label({ val: "nospam" }))).toBe(false);
+    });
+
+    test("should apply source, subject and negation predicates", () => {
+      const filter = new LabelFilter({
+        default: "exclude",
+        rules: [
+          { name: "drop-negations", action: "exclude", neg: true },
+          {
+            name: "posts-from-labeler",
+            action: "include",
+            src: "did:plc:labeler",
+            subject: "post",
+          },
+        ],
+      });
+
+      expect(filter.shouldCapture(label())).toBe(true);
+      expect(filter.evaluate(label({ neg: true })).rule).toBe("drop-negations");
+      expect(filter.shouldCapture(label({ uri: "did:plc:user" }))).toBe(false);
+      expect(filter.shouldCapture(label({ src: "did:plc:other" }))).toBe(false);
+    });
+
+    test("should classify label subjects", () => {
+      expect(subjectKindOf("did:plc:user")).toBe("account");
+      expect(subjectKindOf("at://did:plc:user")).toBe("account");
+      expect(subjectKindOf("at://did:plc:user/app.bsky.feed.post/1")).toBe(
+        "post"
+      );
+      expect(subjectKindOf("at://did:plc:user/app.bsky.graph.list/1")).toBe(
+        "record"
+      );
+    });
+
+    test("should treat profile record labels as account labels", () => {
+      expect(
+        subjectKindOf("at://did:plc:user/app.bsky.actor.profile/self")
+      ).toBe("account");
+
+      const filter = new LabelFilter({
+        default: "exclude",
+        rules: [{ action: "include", subject: "account" }],
+      });
+      expect(
+        filter.shouldCapture(
+          label({ uri: "at://did:plc:user/app.bsky.actor.profile/self" })
+        )
+      ).toBe(true);
+    });
+
+    test("should load rules from a file and reject invalid ones", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "filter-rules-"));
+      const valid = path.join(dir, "valid.json");
+      const invalid = path.join(dir, "invalid.json");
+
+      fs.writeFileSync(
+        valid,
+        JSON.stringify({ rules: [{ action: "exclude", subject: "account" }] })
+      );
+      fs.writeFileSync(
+        invalid,
+        JSON.stringify({ rules: [{ action: "drop", valRegex: "(" }] })
+      );
+
+      try {
+        const filter = new LabelFilter(loadFilterRules(valid));
+        expect(filter.shouldCapture(label({ uri: "did:plc:user" }))).toBe(false);
+        expect(() => loadFilterRules(invalid)).toThrow(/rules\.0\.action/);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, test, expect, beforeAll } from "bun:test";
+import sharp from "sharp";
+import {
+  computeDctPerceptualHash,
+  computePdqHash,
+} from "../../src/blobs/hasher.js";
+
+function hammingDistance(a: string, b: string): number {
+  let diff = BigInt("0x" + a) ^ BigInt("0x" + b);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+function patternImage(width: number, height: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      pixels[i] = 128 + 127 * Math.sin(x / 9) * Math.cos(y / 13);
+      pixels[i + 1] = 128 + 127 * Math.sin((x + y) / 17);
+      pixels[i + 2] = (x * 255) / width;
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+describe("Perceptual Hashes", () => {
+  let image: Buffer;
+  let resized: Buffer;
+  let flat: Buffer;
+
+  beforeAll(async () => {
+    image = await patternImage(256, 192);
+    resized = await sharp(image).resize(512, 384).jpeg({ quality: 80 }).toBuffer();
+    flat = await sharp({
+      create: { width: 128, height: 128, channels: 3, background: "#808080" },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  test("should compute a stable 64-bit DCT pHash", async () => {
+    const hash = await computeDctPerceptualHash(image);
+
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(await computeDctPerceptualHash(image)).toBe(hash);
+  });
+
+  test("should compute a 256-bit PDQ hash with quality", async () => {
+    const { hash, quality } = await computePdqHash(image);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(quality).toBeGreaterThan(0);
+    expect(quality).toBeLessThanOrEqual(100);
+  });
+
+  test("should report zero PDQ quality for a flat image", async () => {
+    const { quality } = await computePdqHash(flat);
+    expect(quality).toBe(0);
+  });
+
+  test("should keep hashes close for resized re-encodes", async () => {
+    const [pdqA, pdqB] = await Promise.all([
+      computePdqHash(image),
+      computePdqHash(resized),
+    ]);
+    const [dctA, dctB] = await Promise.all([
+      computeDctPerceptualHash(image),
+      computeDctPerceptualHash(resized),
+    ]);
+
+    expect(hammingDistance(pdqA.hash, pdqB.hash)).toBeLessThanOrEqual(31);
+    expect(hammingDistance(dctA, dctB)).toBeLessThan(10);
+  });
+});
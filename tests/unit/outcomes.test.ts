@@ -0,0 +1,43 @@
+import { describe, test, expect } from "bun:test";
+import { classifyError } from "../../src/hydration/classify-error.js";
+import { RetryError } from "../../src/utils/retry-error.js";
+
+function xrpcError(error: string, status = 400, message = "Request failed") {
+  return Object.assign(new Error(message), { error, status });
+}
+
+describe("Hydration Outcomes", () => {
+  test("should classify XRPC errors by name", () => {
+    expect(classifyError(xrpcError("RecordNotFound"))).toEqual({
+      status: "not_found",
+      http_status: 400,
+      error: "RecordNotFound",
+      message: "Request failed",
+    });
+    expect(classifyError(xrpcError("RepoTakendown")).status).toBe("takendown");
+    expect(classifyError(xrpcError("RepoSuspended")).status).toBe("takendown");
+    expect(classifyError(xrpcError("RepoDeactivated")).status).toBe("deactivated");
+  });
+
+  test("should look through retry wrappers", () => {
+    const wrapped = new RetryError(
+      "Operation failed after 1 attempts",
+      1,
+      xrpcError("RecordNotFound")
+    );
+    expect(classifyError(wrapped).status).toBe("not_found");
+  });
+
+  test("should treat anything else as an error", () => {
+    const outcome = classifyError(xrpcError("InternalServerError", 502));
+    expect(outcome.status).toBe("error");
+    expect(outcome.http_status).toBe(502);
+
+    expect(classifyError(new Error("socket hang up"))).toEqual({
+      status: "error",
+      http_status: null,
+      error: null,
+      message: "socket hang up",
+    });
+  });
+});
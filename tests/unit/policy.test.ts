@@ -0,0 +1,53 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { config } from "../../src/config/index.js";
+import {
+  combinePolicies,
+  policyForLabel,
+  usesBlobStorage,
+} from "../../src/hydration/policy.js";
+
+describe("Hydration Policy", () => {
+  const original = { ...config.hydration };
+  const hydrateBlobs = config.blobs.hydrateBlobs;
+
+  afterEach(() => {
+    config.hydration = { ...original };
+    config.blobs.hydrateBlobs = hydrateBlobs;
+  });
+
+  test("should default to HYDRATE_BLOBS for unlisted values", () => {
+    config.hydration.policies = { spam: "none" };
+
+    config.blobs.hydrateBlobs = false;
+    expect(policyForLabel("spam")).toBe("none");
+    expect(policyForLabel("porn")).toBe("hashes-only");
+
+    config.blobs.hydrateBlobs = true;
+    expect(policyForLabel("porn")).toBe("full-blob");
+
+    config.hydration.defaultPolicy = "record-only";
+    expect(policyForLabel("porn")).toBe("record-only");
+  });
+
+  test("should let the most thorough policy win", () => {
+    expect(combinePolicies(["none", "record-only"])).toBe("record-only");
+    expect(combinePolicies(["full-blob", "none"])).toBe("full-blob");
+    expect(combinePolicies(["none"])).toBe("none");
+  });
+
+  test("should never store bytes while a label asks for hashes only", () => {
+    expect(combinePolicies(["full-blob", "hashes-only"])).toBe("hashes-only");
+    expect(combinePolicies(["record-only", "hashes-only"])).toBe(
+      "hashes-only"
+    );
+  });
+
+  test("should need blob storage only when some policy stores bytes", () => {
+    config.blobs.hydrateBlobs = false;
+    config.hydration.policies = { csam: "hashes-only" };
+    expect(usesBlobStorage()).toBe(false);
+
+    config.hydration.policies = { spam: "full-blob" };
+    expect(usesBlobStorage()).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test, expect } from "bun:test";
+import { contextUris, postRefs } from "../../src/hydration/post-context.js";
+
+const PARENT = "at://did:plc:a/app.bsky.feed.post/parent";
+const ROOT = "at://did:plc:b/app.bsky.feed.post/root";
+const QUOTED = "at://did:plc:c/app.bsky.feed.post/quoted";
+
+describe("Post Context", () => {
+  test("should read reply and quote refs from a post record", () => {
+    const refs = postRefs({
+      text: "reply",
+      reply: { parent: { uri: PARENT, cid: "x" }, root: { uri: ROOT, cid: "y" } },
+      embed: { $type: "app.bsky.embed.record", record: { uri: QUOTED, cid: "z" } },
+    });
+
+    expect(refs).toEqual({
+      reply_parent_uri: PARENT,
+      reply_root_uri: ROOT,
+      quote_uri: QUOTED,
+    });
+    expect(contextUris(refs)).toEqual([PARENT, ROOT, QUOTED]);
+  });
+
+  test("should read the quote from a record with media", () => {
+    const refs = postRefs({
+      embed: {
+        $type: "app.bsky.embed.recordWithMedia",
+        record: { record: { uri: QUOTED, cid: "z" } },
+        media: { $type: "app.bsky.embed.images", images: [] },
+      },
+    });
+    expect(refs.quote_uri).toBe(QUOTED);
+    expect(postRefs({ embed: { $type: "app.bsky.embed.images" } }).quote_uri).toBeUndefined();
+  });
+
+  test("should only hydrate referenced posts, once each", () => {
+    expect(
+      contextUris({
+        reply_parent_uri: ROOT,
+        reply_root_uri: ROOT,
+        quote_uri: "at://did:plc:c/app.bsky.graph.list/l1",
+      })
+    ).toEqual([ROOT]);
+    expect(contextUris({})).toEqual([]);
+  });
+});
@@ -1,5 +1,33 @@
 import { describe, test, expect, beforeEach } from "bun:test";
 import { HydrationQueue, HydrationTask } from "../../src/hydration/queue.js";
+import {
+  HydrationTaskRecord,
+  HydrationTasksRepository,
+} from "../../src/database/hydration-tasks.repository.js";
+
+function createStore(unfinished: HydrationTaskRecord[] = []) {
+  const calls: string[] = [];
+  const store = {
+    enqueue: async (task: HydrationTask) => {
+      calls.push(`enqueue:${task.identifier}`);
+    },
+    markInFlight: async (task: HydrationTask) => {
+      calls.push(`in_flight:${task.identifier}`);
+    },
+    markDone: async (task: HydrationTask) => {
+      calls.push(`done:${task.identifier}`);
+    },
+    markFailed: async (
+      task: HydrationTask,
+      error: string,
+      nextAttemptAt: Date | null
+    ) => {
+      calls.push(`${nextAttemptAt ? "retry" : "failed"}:${task.identifier}`);
+    },
+    findUnfinished: async () => unfinished,
+  };
+  return { store: store as unknown as HydrationTasksRepository, calls };
+}
 
 describe("Hydration Queue", () => {
   let queue: HydrationQueue;
@@ -14,7 +42,7 @@ describe("Hydration Queue", () => {
       identifier: "at://did:plc:user/app.bsky.feed.post/123",
     };
 
-    queue.on("task", (processedTask) => {
+    queue.process(async (processedTask) => {
       expect(processedTask).toEqual(task);
       done();
     });
@@ -58,4 +86,121 @@ describe("Hydration Queue", () => {
 
     expect(queue.getQueueSize()).toBe(0);
   });
+
+  describe("with a persistent store", () => {
+    const task: HydrationTask = {
+      type: "post",
+      identifier: "at://did:plc:user/app.bsky.feed.post/123",
+    };
+
+    test("should persist enqueued tasks and their completion", async () => {
+      const { store, calls } = createStore();
+      const persistentQueue = new HydrationQueue(store);
+
+      persistentQueue.enqueue(task);
+      await new Promise<void>((resolve) =>
+        persistentQueue.process(async () => resolve())
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await persistentQueue.flush();
+
+      expect(calls).toEqual([
+        `enqueue:${task.identifier}`,
+        `in_flight:${task.identifier}`,
+        `done:${task.identifier}`,
+      ]);
+    });
+
+    test("should schedule a retry for failed tasks", async () => {
+      const { store, calls } = createStore();
+      const persistentQueue = new HydrationQueue(store);
+
+      persistentQueue.process(async () => {
+        throw new Error("boom");
+      });
+      persistentQueue.enqueue(task);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await persistentQueue.flush();
+
+      persistentQueue.enqueue(task);
+      expect(persistentQueue.getQueueSize()).toBe(0);
+      persistentQueue.clear();
+
+      expect(calls).toContain(`retry:${task.identifier}`);
+    });
+
+    test("should resume unfinished tasks from the store", async () => {
+      const { store } = createStore([
+        { ...task, status: "in_flight", attempts: 1 },
+      ]);
+      const persistentQueue = new HydrationQueue(store);
+      const processed: HydrationTask[] = [];
+      persistentQueue.process(async (t) => {
+        processed.push(t);
+      });
+
+      await persistentQueue.resume();
+      persistentQueue.clear();
+
+      expect(processed).toEqual([task]);
+    });
+  });
+
+  describe("with a worker pool", () => {
+    function deferred() {
+      let resolve!: () => void;
+      const promise = new Promise<void>((r) => (resolve = r));
+      return { promise, resolve };
+    }
+
+    test("should run up to the configured number of tasks at once", async () => {
+      const pool = new HydrationQueue(null, 2);
+      const gate = deferred();
+      let running = 0;
+      let maxRunning = 0;
+
+      pool.process(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await gate.promise;
+        running--;
+      });
+
+      for (let i = 0; i < 5; i++) {
+        pool.enqueue({ type: "profile", identifier: `did:plc:user${i}` });
+      }
+
+      expect(pool.getInFlightCount()).toBe(2);
+      expect(pool.getQueueSize()).toBe(3);
+
+      gate.resolve();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(maxRunning).toBe(2);
+      expect(pool.getInFlightCount()).toBe(0);
+      expect(pool.getQueueSize()).toBe(0);
+    });
+
+    test("should not start a task again while it is in flight", async () => {
+      const pool = new HydrationQueue(null, 4);
+      const gate = deferred();
+      let calls = 0;
+
+      pool.process(async () => {
+        calls++;
+        await gate.promise;
+      });
+
+      const task: HydrationTask = { type: "profile", identifier: "did:plc:user" };
+      pool.enqueue(task);
+      pool.enqueue(task);
+
+      expect(pool.getInFlightCount()).toBe(1);
+      expect(pool.getQueueSize()).toBe(0);
+
+      gate.resolve();
+      await gate.promise;
+      expect(calls).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,56 @@
+import { describe, test, expect } from "bun:test";
+import { taskForLabelUri } from "../../src/hydration/routing.js";
+
+describe("Label URI Routing", () => {
+  test("should route record at-uris to post hydration", () => {
+    expect(
+      taskForLabelUri("at://did:plc:user/app.bsky.feed.post/123")
+    ).toEqual({
+      type: "post",
+      identifier: "at://did:plc:user/app.bsky.feed.post/123",
+    });
+  });
+
+  test("should route lists, feed generators and starter packs by collection", () => {
+    expect(
+      taskForLabelUri("at://did:plc:user/app.bsky.graph.list/abc")
+    ).toEqual({
+      type: "list",
+      identifier: "at://did:plc:user/app.bsky.graph.list/abc",
+    });
+    expect(
+      taskForLabelUri("at://did:plc:user/app.bsky.feed.generator/abc")?.type
+    ).toBe("feedgen");
+    expect(
+      taskForLabelUri("at://did:plc:user/app.bsky.graph.starterpack/abc")?.type
+    ).toBe("starterpack");
+  });
+
+  test("should route profile record at-uris to profile hydration", () => {
+    expect(
+      taskForLabelUri("at://did:plc:user/app.bsky.actor.profile/self")
+    ).toEqual({ type: "profile", identifier: "did:plc:user" });
+  });
+
+  test("should route bare DIDs to profile hydration", () => {
+    expect(taskForLabelUri("did:plc:user")).toEqual({
+      type: "profile",
+      identifier: "did:plc:user",
+    });
+  });
+
+  test("should route repo at-uris to profile hydration", () => {
+    expect(taskForLabelUri("at://did:plc:user")).toEqual({
+      type: "profile",
+      identifier: "did:plc:user",
+    });
+  });
+
+  test("should ignore unsupported URIs", () => {
+    expect(taskForLabelUri("at://did:plc:user/app.bsky.feed.post")).toBeNull();
+    expect(taskForLabelUri("https://example.com")).toBeNull();
+    expect(
+      taskForLabelUri("at://did:plc:user/com.example.record/abc")
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeAll, afterEach } from "bun:test";
+import { Secp256k1Keypair } from "@atproto/crypto";
+import {
+  LabelVerifier,
+  encodeUnsignedLabel,
+} from "../../src/firehose/verifier.js";
+import { LabelEvent } from "../../src/firehose/decoder.js";
+
+const LABELER_DID = "did:plc:labeler";
+
+describe("Label Verifier", () => {
+  let keypair: Secp256k1Keypair;
+  const originalFetch = globalThis.fetch;
+  let lookups = 0;
+
+  function mockDidDocument(signingKey: Secp256k1Keypair) {
+    lookups = 0;
+    globalThis.fetch = (async () => {
+      lookups++;
+      return new Response(
+        JSON.stringify({
+          id: LABELER_DID,
+          verificationMethod: [
+            {
+              id: `${LABELER_DID}#atproto_label`,
+              type: "Multikey",
+              controller: LABELER_DID,
+              publicKeyMultibase: signingKey.did().replace("did:key:", ""),
+            },
+          ],
+        })
+      );
+    }) as unknown as typeof fetch;
+  }
+
+  async function signedLabel(signer: Secp256k1Keypair): Promise<LabelEvent> {
+    const label: LabelEvent = {
+      ver: 1,
+      src: LABELER_DID,
+      uri: "at://did:plc:user/app.bsky.feed.post/123",
+      val: "spam",
+      cts: "2025-01-15T12:00:00.000Z",
+    };
+    const sig = await signer.sign(encodeUnsignedLabel(label));
+    return { ...label, sig };
+  }
+
+  beforeAll(async () => {
+    keypair = await Secp256k1Keypair.create();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should accept a label signed by the labeler key", async () => {
+    mockDidDocument(keypair);
+    const verifier = new LabelVerifier("https://plc.test");
+
+    expect(await verifier.verify(await signedLabel(keypair))).toBe("valid");
+  });
+
+  test("should reject a label whose contents were tampered with", async () => {
+    mockDidDocument(keypair);
+    const verifier = new LabelVerifier("https://plc.test");
+    const label = await signedLabel(keypair);
+
+    expect(await verifier.verify({ ...label, val: "csam" })).toBe("invalid");
+  });
+
+  test("should reject a label signed by a different key", async () => {
+    mockDidDocument(keypair);
+    const verifier = new LabelVerifier("https://plc.test");
+    const impostor = await Secp256k1Keypair.create();
+
+    expect(await verifier.verify(await signedLabel(impostor))).toBe("invalid");
+  });
+
+  test("should refetch the labeler key at most once per interval", async () => {
+    mockDidDocument(keypair);
+    const impostor = await Secp256k1Keypair.create();
+
+    const verifier = new LabelVerifier("https://plc.test");
+    for (let i = 0; i < 3; i++) {
+      expect(await verifier.verify(await signedLabel(impostor))).toBe("invalid");
+    }
+    expect(lookups).toBe(2);
+
+    const eager = new LabelVerifier("https://plc.test", 0);
+    await eager.verify(await signedLabel(impostor));
+    await eager.verify(await signedLabel(impostor));
+    expect(lookups).toBe(5);
+  });
+
+  test("should report unsigned labels", async () => {
+    mockDidDocument(keypair);
+    const verifier = new LabelVerifier("https://plc.test");
+    const { sig, ...label } = await signedLabel(keypair);
+
+    expect(await verifier.verify(label)).toBe("unsigned");
+  });
+
+  test("should report unresolved keys", async () => {
+    globalThis.fetch = (async () =>
+      new Response("not found", { status: 404 })) as unknown as typeof fetch;
+    const verifier = new LabelVerifier("https://plc.test");
+
+    expect(await verifier.verify(await signedLabel(keypair))).toBe(
+      "unresolved"
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, test, expect } from "bun:test";
+import {
+  isVideoMimeType,
+  parseShowinfoTimestamps,
+} from "../../src/blobs/video.js";
+
+describe("Video Keyframes", () => {
+  test("should only treat mp4 and webm as videos", () => {
+    expect(isVideoMimeType("video/mp4")).toBe(true);
+    expect(isVideoMimeType("video/webm")).toBe(true);
+    expect(isVideoMimeType("image/gif")).toBe(false);
+    expect(isVideoMimeType(undefined)).toBe(false);
+  });
+
+  test("should read frame timestamps from showinfo output", () => {
+    const stderr = [
+      "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'input':",
+      "[Parsed_showinfo_0 @ 0x5581] config in time_base: 1/15360, frame_rate: 30/1",
+      "[Parsed_showinfo_0 @ 0x5581] n:   0 pts:      0 pts_time:0       duration:    512 fmt:yuv420p",
+      "[Parsed_showinfo_0 @ 0x5581] n:   1 pts:  38400 pts_time:2.5     duration:    512 fmt:yuv420p",
+      "frame=    2 fps=0.0 q=-0.0 Lsize=N/A time=00:00:02.53",
+    ].join("\n");
+
+    expect(parseShowinfoTimestamps(stderr)).toEqual([0, 2.5]);
+  });
+});